@@ -1,6 +1,23 @@
 // Imports et déclarations globales
 import { DMiNer_error } from "../common/Settings.js";
 import { update } from "tar";
+import {
+    sortFunction, orderCategories, categoricalAxis, computeMinMax, identifyNumericColumns, SortKey, sortDataByKeys, NumberStyle, ColumnFormat,
+    formatCellValue, ScalingMethod, SCALING_LABELS, OutlierMethod, OUTLIER_FLAG, OUTLIER_SERIES_NAME, OUTLIER_DETECTORS,
+    MissingValuePolicy, MISSING_VALUE_MARKER, isMissingValue, FeatureBins, binNumericFeature, HeatmapData, CorrelationMethod, buildBarData,
+    buildSeriesData, PivotData, SamplingMethod, DEFAULT_MAX_POINTS, AggregationMethod, MeasureMethod, MEASURE_METHODS, AggregationMeasure, GroupBySpec,
+    measureName, TrendMethod, TrendSeries, DistributionData, niceTicks, FeatureSummary, Filter, FilterGroup, FilterExpression, isFilterGroup,
+    collectFilterColumns, ChartType, CHART_TYPES, BarMode, BarOptions, PivotOptions, ChartSpec, DatasetSchema, inferSchema, unknownSpecFeatures,
+    resolveSeriesFeatures, ChartComputations, computeChartData, PipelineResult, PIPELINE_STAGES, processChartData, processChartStages, ComparisonMode,
+    applyRollingWindow, appendRows, PIPELINE_CACHED_DATASETS, PipelineRequest, PipelineReply, runPipelineStages
+} from "./DatavizPipeline.js";
+
+// Types de la chaîne de traitement utilisés par l'API publique (ChartSpec, filtres, résumé...)
+export type {
+    SortKey, NumberStyle, ColumnFormat, TableView, ScalingMethod, OutlierMethod, MissingValuePolicy, CorrelationMethod, SamplingMethod,
+    SamplingOptions, MeasureMethod, AggregationMeasure, GroupBySpec, TrendMethod, TrendOptions, FeatureSummary, Filter, FilterGroup, FilterExpression,
+    ChartType, BarMode, BarOptions, HeatmapOptions, PivotOptions, ChartSpec, DatasetSchema, ComparisonMode
+} from "./DatavizPipeline.js";
 
 declare const tfvis: any; // https://js.tensorflow.org/api_vis/latest/
 
@@ -16,18 +33,36 @@ const CONFIG = {
         zoomToFit: true,
         //xType: 'nominal', 
         //yType: 'nominal', 
-        seriesColor: ['#1f77b4'],
-        color: '#1f77b4'
+        // Palette utilisée pour les séries des Line Chart / Scatter Plot
+        seriesColor: ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'],
+        // Couleur attribuée à chaque série (par nom), conservée d'un rendu à l'autre
+        seriesColorMap: {} as Record<string, string>,
+        color: '#1f77b4',
+        outlierColor: '#d62728', // Outliers conservés (mode "mark")
+        selectable: false        // Clic / rectangle de sélection sur le graphique => filtre (rendu SVG au lieu de tfvis)
     },
     heatmap: {
-        colorMap: 'viridis'
+        colorMap: 'viridis',
+        annotate: false,  // Affiche la valeur dans chaque cellule
+        center: 0         // Valeur centrale des palettes divergentes
     },
     histogram: {
         stats: false as boolean | '',// Peut être false ou ''
         maxBins: 20
+    },
+    // Vue du tableau (Table), modifiée par les interactions sur le tableau lui-même
+    table: {
+        pageSize: 25,                                // 0 : toutes les lignes
+        columns: [] as Array<string>,                // Colonnes affichées et leur ordre (vide : toutes)
+        sortKeys: [] as Array<SortKey>,              // Tri multi-colonnes (clic sur les en-têtes)
+        search: '',
+        formats: {} as Record<string, ColumnFormat>  // Format et mise en forme conditionnelle par colonne
     }
 };
 
+// Configuration de rendu (CONFIG ou sa copie surchargée par une ChartSpec)
+type VizConfig = typeof CONFIG;
+
 /**********************************
  * Utilitaires généraux
  **********************************/
@@ -64,232 +99,111 @@ function handleError(context: string, error: unknown): never {
     throw new Error(DMiNer_error.No_possible_visualization);
 }
 
-// Fonction de tri générique (numérique ou lexicographique)
-function sortFunction(a: any, b: any): number {
-    if (!isNaN(a) && !isNaN(b)) {
-        return Number(a) - Number(b); // Tri numérique
-    } else {
-        return String(a).localeCompare(String(b)); // Tri lexicographique
-    }
-}
-
-/**********************************
- * Fonctions de validation et de transformation des données
- **********************************/
-
-// Identifier les colonnes numériques dans les données
-function identifyNumericColumns(
-    data: Readonly<Array<Object>>,
-    features: Readonly<Array<string>>,
-    types: Readonly<Array<string>>
-): Array<string> {
-    return features.filter((feature, index) => {
-        // On check si c’est un type DMN “number” ou si c’est un enum qui *contient* des nombres
-        if (types[index] === 'number') {
-            // Alors c’est direct numeric
-            return true;
-        } else if (types[index] === 'enum') {
-            // Vérif supplémentaire : si *tous* les enregistrements sont des nombres
-            return data.every(datum => typeof (datum as any)[feature] === 'number');
+// Retourne la couleur de chaque série, en attribuant aux nouvelles séries la première couleur de la palette encore libre
+// (puis la palette en boucle quand toutes sont prises)
+function getSeriesColors(series: Array<string>, config: VizConfig = CONFIG): Array<string> {
+    const palette = config.general.seriesColor;
+    const assignments = config.general.seriesColorMap;
+    return series.map((name, i) => {
+        if (!(name in assignments)) {
+            const used = new Set(Object.values(assignments));
+            assignments[name] = name === OUTLIER_SERIES_NAME
+                ? config.general.outlierColor
+                : palette.find(color => !used.has(color)) ?? palette[i % palette.length];
         }
-        return false;
+        return assignments[name];
     });
 }
 
-// Trier un tableau d'objets selon une clé et un ordre
-function sortData(
-    data: Array<Record<string, any>>,
-    key: string,
-    order: 'asc' | 'desc' = 'asc'
-): Array<Record<string, any>> {
-    if (!key || !data || data.length === 0) return data;
-
-    return data.slice().sort((a, b) => {
-        const valA = a[key];
-        const valB = b[key];
-
-        // Comparaison pour les nombres
-        if (typeof valA === 'number' && typeof valB === 'number') {
-            return order === 'asc' ? valA - valB : valB - valA;
-        }
-
-        // Comparaison pour les chaînes de caractères
-        if (typeof valA === 'string' && typeof valB === 'string') {
-            return order === 'asc'
-                ? valA.localeCompare(valB)
-                : valB.localeCompare(valA);
-        }
-
-        // Comparaison par défaut pour types mixtes ou valeurs nulles
-        return 0;
-    });
+// Couleurs de catégories dans l'ordre donné (ordre de l'énumération DMN), sauf couleur choisie par l'utilisateur
+function getCategoryColors(categories: Array<string>, config: VizConfig = CONFIG): Array<string> {
+    const palette = config.general.seriesColor;
+    return categories.map((name, i) => config.general.seriesColorMap[name] ?? palette[i % palette.length]);
 }
 
-// Normaliser les colonnes numériques
-function applyNormalization(
-    data: Readonly<Array<Object>>,
-    numericFeatures: Array<string>
-): Array<Object> {
-    const normalizedData = JSON.parse(JSON.stringify(data)); // Deep clone la data
-
-    numericFeatures.forEach(feature => {
-        const values = normalizedData.map((d: any) => (d as any)[feature]);
-        const min = Math.min(...values);
-        const max = Math.max(...values);
-
-        if (min !== max) {
-            normalizedData.forEach((datum: any) => {
-                (datum as any)[feature] = ((datum as any)[feature] - min) / (max - min);
-            });
-        }
-    });
-
-    return normalizedData;
+// Étiquette d'une catégorie sur un axe ordinal tfvis : vega trie les valeurs ordinales comme des chaînes,
+// le rang complété par des zéros impose l'ordre de l'énumération
+function ordinalLabel(categories: Array<any>, rank: number): string {
+    const digits = String(categories.length).length;
+    return `${String(rank + 1).padStart(digits, '0')}. ${categories[rank]}`;
 }
 
-// Retirer les valeurs aberrantes (outliers) d'un ensemble de données
-function removeOutliers(
-    data: Readonly<Array<Object>>,
-    numericFeatures: Array<string>,
-    threshold: number = 1.5
-): Array<Object> {
-    const filteredData = JSON.parse(JSON.stringify(data)); // Deep clone la data
-    numericFeatures.forEach(feature => {
-        // Extraction des valeurs associées à la caractéristique
-        const values = filteredData.map((d: any) => d[feature]);
-
-        // Calcul de Q1 (1er quartile) et Q3 (3e quartile)
-        const sortedValues = [...values].sort((a, b) => a - b);
-        const Q1 = sortedValues[Math.floor((sortedValues.length / 4))];
-        const Q3 = sortedValues[Math.floor((sortedValues.length * 3) / 4)];
-
-        // Calcul de l'écart interquartile (IQR) et des bornes
-        const IQR = Q3 - Q1;
-        const lowerBound = Q1 - threshold * IQR; // Borne inférieure
-        const upperBound = Q3 + threshold * IQR; // Borne supérieure
-
-        // Filtrer et supprimer les points de données en dehors des bornes
-        for (let i = filteredData.length - 1; i >= 0; i--) {
-            const value = (filteredData[i] as any)[feature];
-            if (value < lowerBound || value > upperBound) {
-                filteredData.splice(i, 1); // Supprime l'élément aberrant
-            }
-        }
-    });
-
-    return filteredData;
+// Remplace les rangs x par les étiquettes ordinales des catégories (points hors catégorie ignorés)
+function toOrdinalSeries(
+    values: Array<Array<{ x: number; y: number }>>,
+    categories: Array<any>
+): Array<Array<{ x: string; y: number }>> {
+    return values.map(points => points
+        .filter(p => Number.isInteger(p.x) && p.x >= 0 && p.x < categories.length)
+        .map(p => ({ x: ordinalLabel(categories, p.x), y: p.y })));
 }
 
-// Construit une matrice pour le graphique de type 'Heatmap'
-function buildHeatmapData(
-    data: Array<Object>,
-    rowFeature: string,
-    colFeature: string,
-    valueFeature: string
-): { values: number[][], rowLabels: string[], colLabels: string[] } {
-
-    let rowLabels = Array.from(new Set(data.map(d => (d as any)[rowFeature])));
-    let colLabels = Array.from(new Set(data.map(d => (d as any)[colFeature])));
-
-    rowLabels.sort(sortFunction);
-    colLabels.sort(sortFunction);
-
-    // Construire la matrice dans le bon ordre
-    const matrix = Array(rowLabels.length).fill(0).map(() =>
-        Array(colLabels.length).fill(0)
-    );
-
-    data.forEach(datum => {
-        const rowIndex = rowLabels.indexOf((datum as any)[rowFeature]);
-        const colIndex = colLabels.indexOf((datum as any)[colFeature]);
-        if (rowIndex >= 0 && colIndex >= 0) {
-            matrix[rowIndex][colIndex] += (datum as any)[valueFeature] as number;
-        }
-    });
-
-    return { values: matrix, rowLabels, colLabels };
+// Calcule le domaine [min, max] d'un axe
+function computeAxisDomain(values: Iterable<number>): [number, number] | undefined {
+    const domain = computeMinMax(values);
+    // Un seul x distinct : on élargit le domaine pour que le point reste visible
+    if (domain && domain[0] === domain[1]) return [domain[0] - 1, domain[1] + 1];
+    return domain;
 }
 
 /**********************************
- * Agrégation des données
+ * Couleurs et éléments SVG des graphiques
  **********************************/
 
-// Agréger les données selon un groupe et une méthode
-function aggregateData(
-    data: Readonly<Array<Object>>,
-    groupFeature: string,
-    numericFeature: string,
-    method: 'sum' | 'average' | 'median' | 'min' | 'max'
-): Array<{ group: string | number; value: number }> {
-    // Si data est vide, on retourne un tableau vide
-    if (!data || data.length === 0) {
-        console.warn('aggregateData: dataset is empty!');
-        return [];
-    }
-
-    // Map qui associe un groupFeature (ex: version) à la liste des valeurs (ex: salaires)
-    const groupsMap = new Map<string | number, number[]>();
-
-    for (const row of data) {
-        const g = (row as any)[groupFeature];
-        const val = (row as any)[numericFeature];
-
-        // Filtrer les entrées invalides
-        if (g == null || val == null || typeof val !== 'number' || isNaN(val)) continue;
-
-        // On peut laisser tel quel si c'est un nombre.
-        const groupKey: string | number = typeof g === 'number' || typeof g === 'string' ? g : String(g);
-
-        if (!groupsMap.has(groupKey)) {
-            groupsMap.set(groupKey, []);
-        }
-        groupsMap.get(groupKey)!.push(val);
-    }
+// Événement émis par la matrice de corrélation quand on clique sur une cellule (detail : { xFeature, yFeature })
+export const CORRELATION_SELECT_EVENT = 'dataviz-correlation-select';
+
+// Palettes de la Heatmap : couleurs régulièrement espacées, interpolées linéairement
+// Les palettes divergentes sont centrées sur CONFIG.heatmap.center
+const HEATMAP_COLOR_MAPS: Record<string, { stops: Array<string>, diverging?: boolean }> = {
+    viridis: { stops: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'] },
+    magma: { stops: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'] },
+    inferno: { stops: ['#000004', '#1f0c48', '#550f6d', '#88226a', '#ba3655', '#e35933', '#f98e09', '#f9cb35', '#fcffa4'] },
+    plasma: { stops: ['#0d0887', '#4c02a1', '#7e03a8', '#a92395', '#cc4778', '#e56b5d', '#f89441', '#fdc328', '#f0f921'] },
+    cividis: { stops: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369', '#e1cc55', '#fee838'] },
+    greyscale: { stops: ['#ffffff', '#000000'] },
+    blues: { stops: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'] },
+    greens: { stops: ['#f7fcf5', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#00441b'] },
+    reds: { stops: ['#fff5f0', '#fcbba1', '#fc9272', '#fb6a4a', '#ef3b2c', '#cb181d', '#67000d'] },
+    oranges: { stops: ['#fff5eb', '#fdd0a2', '#fdae6b', '#fd8d3c', '#f16913', '#d94801', '#7f2704'] },
+    'red-blue': { stops: ['#67001f', '#d6604d', '#f4a582', '#f7f7f7', '#92c5de', '#4393c3', '#053061'], diverging: true },
+    'brown-teal': { stops: ['#543005', '#bf812d', '#f6e8c3', '#f5f5f5', '#c7eae5', '#35978f', '#003c30'], diverging: true },
+    'pink-green': { stops: ['#8e0152', '#de77ae', '#fde0ef', '#f7f7f7', '#e6f5d0', '#7fbc41', '#276419'], diverging: true },
+    coolwarm: { stops: ['#3b4cc0', '#7b9ff9', '#c0d4f5', '#dddddd', '#f2cbb7', '#ee8468', '#b40426'], diverging: true }
+};
 
-    const aggregatedData: Array<{ group: string | number; value: number }> = [];
-    for (const [group, values] of groupsMap.entries()) {
-        if (values.length === 0) continue;
+// Couleur d'une position t dans [0, 1] d'une palette
+function interpolateColor(stops: Array<string>, t: number): string {
+    const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+    const i = Math.min(Math.floor(position), stops.length - 2);
+    const parse = (hex: string) => [1, 3, 5].map(k => parseInt(hex.slice(k, k + 2), 16));
+    const [a, b] = [parse(stops[i]), parse(stops[i + 1])];
+    const f = position - i;
+    return '#' + a.map((c, k) => Math.round(c + (b[k] - c) * f).toString(16).padStart(2, '0')).join('');
+}
 
-        let aggregatedValue: number;
-        switch (method) {
-            case 'sum':
-                aggregatedValue = values.reduce((sum, v) => sum + v, 0);
-                break;
-            case 'average':
-                aggregatedValue = values.reduce((sum, v) => sum + v, 0) / values.length;
-                break;
-            case 'median':
-                const sortedVals = [...values].sort((a, b) => a - b);
-                const mid = Math.floor(sortedVals.length / 2);
-                aggregatedValue = (sortedVals.length % 2 === 0)
-                    ? (sortedVals[mid - 1] + sortedVals[mid]) / 2
-                    : sortedVals[mid];
-                break;
-            case 'min':
-                aggregatedValue = Math.min(...values);
-                break;
-            case 'max':
-                aggregatedValue = Math.max(...values);
-                break;
-            default:
-                // Par défaut, on peut faire la moyenne
-                aggregatedValue = values.reduce((sum, v) => sum + v, 0) / values.length;
-        }
+// Texte lisible (noir ou blanc) sur une couleur de fond
+function contrastTextColor(hex: string): string {
+    const [r, g, b] = [1, 3, 5].map(k => parseInt(hex.slice(k, k + 2), 16));
+    return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#000000' : '#ffffff';
+}
 
-        aggregatedData.push({ group, value: aggregatedValue });
-    }
+// Crée un élément SVG avec ses attributs
+function createSVGElement<K extends keyof SVGElementTagNameMap>(tag: K, attributes: Record<string, string | number>, parent?: Element): SVGElementTagNameMap[K] {
+    const element = document.createElementNS('http://www.w3.org/2000/svg', tag);
+    Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+    parent?.appendChild(element);
+    return element;
+}
 
-    // On trie par ordre croissant de group si c'est un nombre
-    // (par exemple, si groupFeature = "Version")
-    aggregatedData.sort((a, b) => {
-        if (typeof a.group === 'number' && typeof b.group === 'number') {
-            return a.group - b.group;
-        }
-        // sinon tri lexicographique pour des strings
-        return String(a.group).localeCompare(String(b.group));
+// Légende SVG : titre puis une pastille de couleur par entrée
+function drawSVGLegend(svg: SVGSVGElement, x: number, y: number, title: string, names: Array<string>, colors: Array<string>, fontSize: number): void {
+    createSVGElement('text', { x, y: y + fontSize, 'font-weight': 'bold' }, svg).textContent = title;
+    names.forEach((name, i) => {
+        const rowY = y + (i + 2) * fontSize * 1.4;
+        createSVGElement('rect', { x, y: rowY - fontSize * 0.8, width: fontSize, height: fontSize, fill: colors[i] }, svg);
+        createSVGElement('text', { x: x + fontSize * 1.5, y: rowY }, svg).textContent = name;
     });
-
-    return aggregatedData;
 }
 
 /**********************************
@@ -446,6 +360,72 @@ function createLabeledDropdownWithType(id: string, options: Array<string>, contr
             case 'sortOrder':
                 defOpt.text = "Choose a sort order";
                 break;
+            case 'filterScope':
+                defOpt.text = "All panels (global filters)";
+                break;
+            case 'compareDataset':
+                defOpt.text = "No comparison";
+                break;
+            case 'compareMode':
+                defOpt.text = "Overlay (default)";
+                break;
+            case 'groupBy':
+                defOpt.text = "No grouping";
+                break;
+            case 'scalingMethod':
+                defOpt.text = "Choose a scaling method (min-max by default)";
+                break;
+            case 'outlierMethod':
+                defOpt.text = "Choose an outlier method (iqr by default)";
+                break;
+            case 'outlierScope':
+                defOpt.text = "Choose the checked columns (all by default)";
+                break;
+            case 'outlierMode':
+                defOpt.text = "Choose what to do with outliers (drop by default)";
+                break;
+            case 'barMode':
+                defOpt.text = "Choose a bar layout (simple by default)";
+                break;
+            case 'barOrientation':
+                defOpt.text = "Choose an orientation (vertical by default)";
+                break;
+            case 'trendMethod':
+                defOpt.text = "No trend line";
+                break;
+            case 'tableFormatColumn':
+                defOpt.text = "Choose a column to format";
+                break;
+            case 'numberStyle':
+                defOpt.text = "Plain numbers (default)";
+                break;
+            case 'conditionalFormat':
+                defOpt.text = "No conditional formatting";
+                break;
+            case 'scaleColorMap':
+                defOpt.text = "Choose a color scale (blues by default)";
+                break;
+            case 'correlationMethod':
+                defOpt.text = "Choose a coefficient (Pearson by default)";
+                break;
+            case 'heatmapAggregation':
+                defOpt.text = "Choose an aggregation (sum by default)";
+                break;
+            case 'pivotAggregation':
+                defOpt.text = "Choose a pivot aggregation (sum by default)";
+                break;
+            case 'pivotPercent':
+                defOpt.text = "Show values (no percentage)";
+                break;
+            case 'missingPolicy':
+                defOpt.text = "Keep missing values (default)";
+                break;
+            case 'samplingMethod':
+                defOpt.text = "No sampling (all points)";
+                break;
+            case 'preset':
+                defOpt.text = "Choose a saved configuration";
+                break;
             default:
                 defOpt.text = "--Please choose an option--";
                 break;
@@ -456,6 +436,49 @@ function createLabeledDropdownWithType(id: string, options: Array<string>, contr
 }
 
 
+// Crée une liste à sélection multiple avec une étiquette
+function createLabeledMultiSelect(id: string, options: Array<string>, controlsContainer: HTMLDivElement, labelText: string): {
+    label: HTMLLabelElement,
+    field: HTMLSelectElement
+} {
+    const container = document.createElement('div');
+    container.className = 'field-row';
+
+    const label = document.createElement('label');
+    label.innerText = labelText;
+
+    const select = document.createElement('select');
+    select.id = id;
+    select.multiple = true;
+
+    [...options].sort(sortFunction).forEach(option => {
+        const opt = document.createElement('option');
+        opt.value = option;
+        opt.innerText = option;
+        select.appendChild(opt);
+    });
+
+    hideHTMLElements(label, select);
+
+    container.appendChild(label);
+    container.appendChild(select);
+    controlsContainer.appendChild(container);
+
+    return { label: label, field: select };
+}
+
+
+// Crée un bouton et l'ajoute au conteneur
+function createButton(text: string, parent: HTMLElement, onClick: () => void, className: string = 'preset-button'): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.innerText = text;
+    button.className = className;
+    button.onclick = onClick;
+    parent.appendChild(button);
+    return button;
+}
+
+
 // Crée une option par défaut personalisée
 function createSelectionDefaultOption(defaultOptLabel: string): HTMLOptionElement {
     const opt = document.createElement('option');
@@ -470,22 +493,22 @@ function createSelectionDefaultOption(defaultOptLabel: string): HTMLOptionElemen
 function updateAxisSelectors(
     xAxisDropdown: HTMLSelectElement,
     yAxisDropdown: HTMLSelectElement,
-    numericFeatures: Array<string>
+    xFeatures: Array<string>, // Toutes les features : l'axe X accepte aussi les catégorielles
+    yFeatures: Array<string>
 ): void {
     xAxisDropdown.innerHTML = '';
     yAxisDropdown.innerHTML = '';
 
-    numericFeatures.forEach(feature => {
+    xFeatures.forEach(feature => {
         const xOption = document.createElement('option');
-        const yOption = document.createElement('option');
-
         xOption.value = feature;
         xOption.innerText = feature;
-
+        xAxisDropdown.appendChild(xOption);
+    });
+    yFeatures.forEach(feature => {
+        const yOption = document.createElement('option');
         yOption.value = feature;
         yOption.innerText = feature;
-
-        xAxisDropdown.appendChild(xOption);
         yAxisDropdown.appendChild(yOption);
     });
     xAxisDropdown.appendChild(createSelectionDefaultOption("Chose a dataset to be assigned to the X Axis"));
@@ -509,6 +532,36 @@ function createSection(title: string, parent: HTMLElement): HTMLDivElement {
     return section;
 }
 
+// Affiche un sélecteur de couleur par série affichée (légende éditable)
+function renderSeriesPaletteEditor(
+    container: HTMLDivElement,
+    series: Array<string>,
+    onColorChanged: () => void,
+    colors: Array<string> = getSeriesColors(series)
+): void {
+    container.innerHTML = '';
+
+    series.forEach((name, i) => {
+        const row = document.createElement('div');
+        row.className = 'field-row';
+
+        const label = document.createElement('label');
+        label.innerText = name;
+
+        const input = document.createElement('input');
+        input.type = 'color';
+        input.value = colors[i];
+        input.addEventListener('change', () => {
+            CONFIG.general.seriesColorMap[name] = input.value;
+            onColorChanged();
+        });
+
+        row.appendChild(label);
+        row.appendChild(input);
+        container.appendChild(row);
+    });
+}
+
 /*************************************************
  * Création des parties de contrôles des données
  *************************************************/
@@ -521,10 +574,17 @@ interface ControlElements {
         dataProcessingSection: HTMLDivElement;
         heatmapSection: HTMLDivElement;
         filtersSection: HTMLDivElement;
+        presetsSection: HTMLDivElement;
+        exportSection: HTMLDivElement;
+        groupBySection: HTMLDivElement;
     };
     chart: {
+        datasetDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        compareDatasetDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        compareModeDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         chartTypeDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         fontSizeInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        selectionCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
         //xTypeDropdown: {label: HTMLLabelElement; field: HTMLSelectElement};
         //yTypeDropdown: {label: HTMLLabelElement; field: HTMLSelectElement};
     };
@@ -534,16 +594,38 @@ interface ControlElements {
     };
     dataProcessing: {
         normalizeCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
+        scalingMethodDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        columnScalingContainer: HTMLDivElement;
         removeOutliersCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
         outlierThresholdInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        outlierMethodDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        outlierScopeDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        outlierModeDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         applyAggregationCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
         aggregationDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        missingPolicyDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        missingFillInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        samplingMethodDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        maxPointsInput: { label: HTMLLabelElement; field: HTMLInputElement };
     };
     heatmap: {
         rowDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         colDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         valDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         colorMapDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        heatmapAggregationDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        heatmapPercentileInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        rowBinsInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        colBinsInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        colorCenterInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        annotateCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
+    };
+    pivot: {
+        pivotAggregationDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        pivotPercentileInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        pivotPercentDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        pivotTotalsCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
+        pivotWithHeatmapCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
     };
     histogram: {
         maxBinsInput: { label: HTMLLabelElement; field: HTMLInputElement };
@@ -552,13 +634,38 @@ interface ControlElements {
     };
     bar: {
         barColorInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        barModeDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        barOrientationDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        donutHoleInput: { label: HTMLLabelElement; field: HTMLInputElement };
+    };
+    correlation: {
+        correlationMethodDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
     };
     lineScatter: {
-        lsColorInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        additionalYSelect: { label: HTMLLabelElement; field: HTMLSelectElement };
+        groupByDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        seriesPalette: HTMLDivElement;
+    };
+    trend: {
+        trendMethodDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        trendDegreeInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        trendSpanInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        trendPerGroupCheckbox: { label: HTMLLabelElement; field: HTMLInputElement };
     };
     tableSorting: {
         sortColumnDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
         sortOrderDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+    };
+    tableFormat: {
+        tableFormatColumnDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        tableDecimalsInput: { label: HTMLLabelElement; field: HTMLInputElement };
+        tableNumberStyleDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        tableConditionalDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        tableScaleColorMapDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
+        tableThresholdInput: { label: HTMLLabelElement; field: HTMLInputElement };
+    };
+    filters: {
+        filterScopeDropdown: { label: HTMLLabelElement; field: HTMLSelectElement };
     }
 }
 
@@ -566,7 +673,9 @@ interface ControlElements {
 function createControlDiv(
     numericFeatures: string[],
     features: string[],
-    controlsSurface: any
+    controlsSurface: any,
+    datasetNames: Array<string>,
+    currentName: string
 ): ControlElements {
     const controlsContainer = document.createElement('div');
     controlsContainer.className = 'viz_ui controls_area';
@@ -576,56 +685,145 @@ function createControlDiv(
     const chartSection = createSection('Chart Configuration', controlsContainer);
     const axesSection = createSection('Axes Configuration', controlsContainer);
     const dataProcessingSection = createSection('Data Processing', controlsContainer);
+    const groupBySection = createSection('Group By', controlsContainer);
     const heatmapSection = createSection('Heatmap Configuration', controlsContainer);
     const filtersSection = createSection('Filters', controlsContainer); // Nouvelle section pour les filtres
+    const presetsSection = createSection('Saved Configurations', controlsContainer);
+    const exportSection = createSection('Export', controlsContainer);
 
     // --- Chart Configuration ---
+    // Dataset affiché, et dataset enregistré auquel le comparer (superposition ou différences)
+    const datasetDropdown = createLabeledDropdown('datasetDropdown', [...datasetNames], chartSection, 'Dataset: ');
+    datasetDropdown.field.value = currentName;
+    const compareDatasetDropdown = createLabeledDropdownWithType('compareDatasetDropdown', datasetNames.filter(name => name !== currentName), chartSection, 'Compare with: ', 'compareDataset');
+    const compareModeDropdown = createLabeledDropdownWithType('compareModeDropdown', ['overlay', 'diff'], chartSection, 'Comparison: ', 'compareMode');
+    (compareDatasetDropdown.field.querySelector('option[value=""]') as HTMLOptionElement).disabled = false;
+    compareDatasetDropdown.field.onchange = null; // "No comparison" reste sélectionnable
     const chartTypeDropdown = createLabeledDropdownWithType(
         'chartTypeDropdown',
-        ['Line Chart', 'Bar Chart', 'Scatter Plot', 'Heatmap', 'Histogram', 'Table'],
+        [...CHART_TYPES],
         chartSection,
         'Chart type: ',
         'chartType'
     );
     chartSection.appendChild(document.createElement('hr'));
     const fontSizeInput = createLabeledInput('fontSizeInput', "Font size:", chartSection, "number", "12", "1", "1");
+    const selectionCheckbox = createLabeledCheckbox('selectionCheckbox', 'Click / drag on the chart to filter', chartSection);
     //const xTypeDropdown = createLabeledDropdownWithType(['nominal', 'ordinal', 'quantitative'], chartSection, 'xType: ', 'xType');
     //const yTypeDropdown = createLabeledDropdownWithType(['nominal', 'ordinal', 'quantitative'], chartSection, 'yType: ', 'yType');
 
 
     // --- Axes Configuration ---
-    const xAxisDatasetDropdown = createLabeledDropdownWithType('xAxisDatasetDropdown', numericFeatures, axesSection, 'X Axis: ');
+    // L'axe X accepte aussi les features catégorielles (chaînes, booléens, énumérations DMN)
+    const xAxisDatasetDropdown = createLabeledDropdownWithType('xAxisDatasetDropdown', features, axesSection, 'X Axis: ');
     const yAxisDatasetDropdown = createLabeledDropdownWithType('yAxisDatasetDropdown', numericFeatures, axesSection, 'Y Axis: ');
-    updateAxisSelectors(xAxisDatasetDropdown.field, yAxisDatasetDropdown.field, numericFeatures);
+    updateAxisSelectors(xAxisDatasetDropdown.field, yAxisDatasetDropdown.field, features, numericFeatures);
+    const additionalYSelect = createLabeledMultiSelect('additionalYSelect', numericFeatures, axesSection, 'Additional Y series:');
 
     // --- Data Processing ---
     const normalizeCheckbox = createLabeledCheckbox('normalize', 'Normalize Data', dataProcessingSection);
-    const removeOutliersCheckbox = createLabeledCheckbox('removeOutliers', 'Remove Outliers', dataProcessingSection);
+    const scalingMethodDropdown = createLabeledDropdownWithType('scalingMethodDropdown', Object.keys(SCALING_LABELS), dataProcessingSection, 'Scaling method:', 'scalingMethod');
+
+    // Surcharge optionnelle de la méthode, colonne par colonne
+    const columnScalingContainer = document.createElement('div');
+    columnScalingContainer.className = 'column-scaling';
+    columnScalingContainer.id = 'columnScalingContainer';
+    numericFeatures.forEach(feature => {
+        const { label, field } = createLabeledDropdown(`columnScaling-${feature}`, ['none', ...Object.keys(SCALING_LABELS)], columnScalingContainer, `Scaling of ${feature}:`);
+        field.dataset.column = feature;
+        const sameAsChartOpt = field.querySelector('option[value=""]') as HTMLOptionElement;
+        sameAsChartOpt.text = 'Same as chart';
+        sameAsChartOpt.disabled = false;
+        field.onchange = null; // L'option vide reste sélectionnable
+        showHTMLElements({ label, field });
+    });
+    hideHTMLElements(columnScalingContainer);
+    dataProcessingSection.appendChild(columnScalingContainer);
+    const removeOutliersCheckbox = createLabeledCheckbox('removeOutliers', 'Detect Outliers', dataProcessingSection);
+    const outlierMethodDropdown = createLabeledDropdownWithType('outlierMethodDropdown', Object.keys(OUTLIER_DETECTORS), dataProcessingSection, 'Outlier method:', 'outlierMethod');
     const outlierThresholdInput = createLabeledInput('outlierThresholdInput', 'Outlier Threshold:', dataProcessingSection, 'number', '1.5', '0', '0.025');
+    const outlierScopeDropdown = createLabeledDropdownWithType('outlierScopeDropdown', ['all', 'plotted'], dataProcessingSection, 'Outlier columns:', 'outlierScope');
+    const outlierModeDropdown = createLabeledDropdownWithType('outlierModeDropdown', ['drop', 'mark'], dataProcessingSection, 'Outliers:', 'outlierMode');
     const applyAggregationCheckbox = createLabeledCheckbox('applyAggregation', 'Apply Aggregation', dataProcessingSection);
     const aggregationDropdown = createLabeledDropdownWithType('aggregationDropdown', ['sum', 'average', 'median', 'max', 'min'], dataProcessingSection, 'Aggregation Method:', 'aggregationMethod');
+    dataProcessingSection.appendChild(document.createElement('hr'));
+    const missingPolicyDropdown = createLabeledDropdownWithType('missingPolicyDropdown', ['keep', 'drop', 'constant', 'mean', 'median', 'mode', 'forward-fill'], dataProcessingSection, 'Missing values:', 'missingPolicy');
+    const missingFillInput = createLabeledInput('missingFillInput', 'Fill value:', dataProcessingSection, 'text', '0');
+    // Échantillonnage des courbes et nuages de points (grands datasets)
+    const samplingMethodDropdown = createLabeledDropdownWithType('samplingMethodDropdown', ['none', 'random', 'stratified', 'lttb'], dataProcessingSection, 'Sampling:', 'samplingMethod');
+    const maxPointsInput = createLabeledInput('maxPointsInput', 'Max points:', dataProcessingSection, 'number', String(DEFAULT_MAX_POINTS), '10', '100');
 
     // --- Heatmap Configuration ---
     const rowDropdown = createLabeledDropdownWithType('rowDropdown', features, heatmapSection, 'Row feature:', 'rowFeature');
     const colDropdown = createLabeledDropdownWithType('colDropdown', features, heatmapSection, 'Col feature:', 'colFeature');
     const valDropdown = createLabeledDropdownWithType('valDropdown', numericFeatures, heatmapSection, 'Value feature:', 'valFeature');
-    const colorMapDropdown = createLabeledDropdownWithType('colorMapDropdown', ['viridis', 'greyscale', 'blues'], heatmapSection, "Color map:", 'colorMap');
+    const heatmapAggregationDropdown = createLabeledDropdownWithType('heatmapAggregationDropdown', MEASURE_METHODS, heatmapSection, 'Aggregation:', 'heatmapAggregation');
+    const heatmapPercentileInput = createLabeledInput('heatmapPercentileInput', 'Percentile:', heatmapSection, 'number', '90', '0', '1');
+    const rowBinsInput = createLabeledInput('rowBinsInput', 'Row bins (0 = none):', heatmapSection, 'number', '0', '0', '1');
+    const colBinsInput = createLabeledInput('colBinsInput', 'Col bins (0 = none):', heatmapSection, 'number', '0', '0', '1');
+    const colorMapDropdown = createLabeledDropdownWithType('colorMapDropdown', Object.keys(HEATMAP_COLOR_MAPS), heatmapSection, "Color map:", 'colorMap');
+    const colorCenterInput = createLabeledInput('colorCenterInput', 'Diverging center:', heatmapSection, 'number', `${CONFIG.heatmap.center}`);
+    const annotateCheckbox = createLabeledCheckbox('annotateCheckbox', 'Show values in cells', heatmapSection);
+
+    // --- Pivot Table (mêmes features ligne/colonne/valeur que la Heatmap) ---
+    const pivotAggregationDropdown = createLabeledDropdownWithType('pivotAggregationDropdown', MEASURE_METHODS, heatmapSection, 'Pivot aggregation:', 'pivotAggregation');
+    const pivotPercentileInput = createLabeledInput('pivotPercentileInput', 'Percentile:', heatmapSection, 'number', '90', '0', '1');
+    const pivotPercentDropdown = createLabeledDropdownWithType('pivotPercentDropdown', ['none', 'row', 'column', 'total'], heatmapSection, 'Show as % of:', 'pivotPercent');
+    const pivotTotalsCheckbox = createLabeledCheckbox('pivotTotalsCheckbox', 'Show totals', heatmapSection);
+    pivotTotalsCheckbox.field.checked = true;
+    const pivotWithHeatmapCheckbox = createLabeledCheckbox('pivotWithHeatmapCheckbox', 'Also draw the heatmap', heatmapSection);
 
     // Histogram options:
     const maxBinsInput = createLabeledInput('maxBinsInput', "Max bins:", chartSection, "number", "20", "1");
     const statsCheckbox = createLabeledCheckbox('statsCheckbox', 'Show stats', chartSection);
     const histColorInput = createLabeledInput('histColorInput', "Histogram color:", chartSection, "color", `${CONFIG.general.color}`);
 
+    // Correlation Matrix options:
+    const correlationMethodDropdown = createLabeledDropdownWithType('correlationMethodDropdown', ['pearson', 'spearman'], chartSection, 'Correlation:', 'correlationMethod');
+
     // Line/Scatter options:
-    const lsColorInput = createLabeledInput('lsColorInput', "Series Color (single):", chartSection, "color", `${CONFIG.general.seriesColor[0]}`);
+    const groupByDropdown = createLabeledDropdownWithType('groupByDropdown', features, chartSection, "Group by:", 'groupBy');
+    // L'option vide reste sélectionnable : elle désactive le regroupement
+    (groupByDropdown.field.querySelector('option[value=""]') as HTMLOptionElement).disabled = false;
+    groupByDropdown.field.onchange = null;
+
+    const seriesPalette = document.createElement('div');
+    seriesPalette.className = 'series-palette';
+    seriesPalette.id = 'seriesPalette';
+    hideHTMLElements(seriesPalette);
+    chartSection.appendChild(seriesPalette);
+
+    // Scatter options (courbe de tendance):
+    const trendMethodDropdown = createLabeledDropdownWithType('trendMethodDropdown', ['none', 'linear', 'polynomial', 'loess'], chartSection, 'Trend line:', 'trendMethod');
+    const trendDegreeInput = createLabeledInput('trendDegreeInput', 'Polynomial degree:', chartSection, 'number', '2', '1', '1');
+    const trendSpanInput = createLabeledInput('trendSpanInput', 'LOESS span:', chartSection, 'number', '0.3', '0.05', '0.05');
+    const trendPerGroupCheckbox = createLabeledCheckbox('trendPerGroupCheckbox', 'One trend per group', chartSection);
 
     // Bar options:
     const barColorInput = createLabeledInput('barColorInput', "Barchart Color:", chartSection, "color", `${CONFIG.general.color}`);
+    const barModeDropdown = createLabeledDropdownWithType('barModeDropdown', ['simple', 'grouped', 'stacked', 'percent'], chartSection, 'Bar layout:', 'barMode');
+    const barOrientationDropdown = createLabeledDropdownWithType('barOrientationDropdown', ['vertical', 'horizontal'], chartSection, 'Orientation:', 'barOrientation');
+
+    // Donut options:
+    const donutHoleInput = createLabeledInput('donutHoleInput', 'Hole size (0 = pie):', chartSection, 'number', '0.5', '0', '0.1');
 
     // Ajouter les controls de tri (pour le type Table)
     const sortColumnDropdown = createLabeledDropdownWithType('sortColumnDropdown', features, chartSection, "Sort column:", 'sortColumn');
     const sortOrderDropdown = createLabeledDropdownWithType('sortOrderDropdown', ['asc', 'desc'], chartSection, "Sort order:", 'sortOrder');
 
+    // Format des colonnes du tableau (réglages de la colonne choisie, conservés dans CONFIG.table.formats)
+    const tableFormatColumnDropdown = createLabeledDropdownWithType('tableFormatColumnDropdown', numericFeatures, chartSection, 'Format column:', 'tableFormatColumn');
+    const tableDecimalsInput = createLabeledInput('tableDecimalsInput', 'Decimals (empty = as is):', chartSection, 'number', '', '0', '1');
+    const tableNumberStyleDropdown = createLabeledDropdownWithType('tableNumberStyleDropdown', ['plain', 'thousands', 'percent', 'scientific'], chartSection, 'Number style:', 'numberStyle');
+    const tableConditionalDropdown = createLabeledDropdownWithType('tableConditionalDropdown', ['scale', 'threshold'], chartSection, 'Conditional formatting:', 'conditionalFormat');
+    const tableScaleColorMapDropdown = createLabeledDropdownWithType('tableScaleColorMapDropdown', Object.keys(HEATMAP_COLOR_MAPS), chartSection, 'Scale colors:', 'scaleColorMap');
+    const tableThresholdInput = createLabeledInput('tableThresholdInput', 'Threshold:', chartSection, 'number', '0', undefined, 'any');
+
+    // Portée des filtres du tableau de bord : tous les panneaux, ou seulement le panneau actif
+    const filterScopeDropdown = createLabeledDropdownWithType('filterScopeDropdown', ['panel'], filtersSection, 'Filters apply to:', 'filterScope');
+    (filterScopeDropdown.field.querySelector('option[value="panel"]') as HTMLOptionElement).text = 'This panel only';
+    filterScopeDropdown.field.onchange = null;
+
 
     // Ajouter les contrôles au conteneur principal
     controlsSurface.drawArea.appendChild(controlsContainer);
@@ -638,11 +836,18 @@ function createControlDiv(
             axesSection,
             dataProcessingSection,
             heatmapSection,
-            filtersSection
+            filtersSection,
+            presetsSection,
+            exportSection,
+            groupBySection
         },
         chart: {
+            datasetDropdown,
+            compareDatasetDropdown,
+            compareModeDropdown,
             chartTypeDropdown,
             fontSizeInput,
+            selectionCheckbox,
             //xTypeDropdown,
             //yTypeDropdown
         },
@@ -652,16 +857,38 @@ function createControlDiv(
         },
         dataProcessing: {
             normalizeCheckbox,
+            scalingMethodDropdown,
+            columnScalingContainer,
             removeOutliersCheckbox,
             outlierThresholdInput,
+            outlierMethodDropdown,
+            outlierScopeDropdown,
+            outlierModeDropdown,
             applyAggregationCheckbox,
-            aggregationDropdown
+            aggregationDropdown,
+            missingPolicyDropdown,
+            missingFillInput,
+            samplingMethodDropdown,
+            maxPointsInput
         },
         heatmap: {
             rowDropdown,
             colDropdown,
             valDropdown,
-            colorMapDropdown
+            colorMapDropdown,
+            heatmapAggregationDropdown,
+            heatmapPercentileInput,
+            rowBinsInput,
+            colBinsInput,
+            colorCenterInput,
+            annotateCheckbox
+        },
+        pivot: {
+            pivotAggregationDropdown,
+            pivotPercentileInput,
+            pivotPercentDropdown,
+            pivotTotalsCheckbox,
+            pivotWithHeatmapCheckbox
         },
         histogram: {
             maxBinsInput,
@@ -669,227 +896,1704 @@ function createControlDiv(
             histColorInput
         },
         bar: {
-            barColorInput
+            barColorInput,
+            barModeDropdown,
+            barOrientationDropdown,
+            donutHoleInput
+        },
+        correlation: {
+            correlationMethodDropdown
         },
         lineScatter: {
-            lsColorInput
+            additionalYSelect,
+            groupByDropdown,
+            seriesPalette
+        },
+        trend: {
+            trendMethodDropdown,
+            trendDegreeInput,
+            trendSpanInput,
+            trendPerGroupCheckbox
         },
         tableSorting: {
             sortColumnDropdown,
             sortOrderDropdown
+        },
+        tableFormat: {
+            tableFormatColumnDropdown,
+            tableDecimalsInput,
+            tableNumberStyleDropdown,
+            tableConditionalDropdown,
+            tableScaleColorMapDropdown,
+            tableThresholdInput
+        },
+        filters: {
+            filterScopeDropdown
         }
     };
 }
 
 
-// Représente un seul filtre, p.ex. {column: "Version", operator: ">=", value: 10}
-interface Filter {
-    column: string;
-    operator: string;
-    value: any;
+// Opérateurs proposés selon le type de la colonne filtrée
+const NUMERIC_FILTER_OPERATORS = ['==', '!=', '<', '<=', '>', '>=', 'between', 'in', 'is null', 'is not null'];
+const STRING_FILTER_OPERATORS = ['==', '!=', 'in', 'contains', 'startsWith', 'regex', 'is null', 'is not null'];
+
+// Texte lisible d'une expression, p.ex. "(Version == 3 OR Version == 5) AND NOT (Status == rejected)"
+function describeFilterExpression(expression: FilterExpression): string {
+    let text: string;
+    if (isFilterGroup(expression)) {
+        const parts = expression.conditions.map(c => describeFilterExpression(c));
+        text = parts.length > 1 ? `(${parts.join(expression.combinator === 'or' ? ' OR ' : ' AND ')})` : (parts[0] ?? '(empty)');
+    } else if (expression.operator === 'is null' || expression.operator === 'is not null') {
+        text = `${expression.column} ${expression.operator}`;
+    } else if (expression.operator === 'between') {
+        text = `${expression.column} between ${expression.value[0]} and ${expression.value[1]}`;
+    } else if (expression.operator === 'in') {
+        text = `${expression.column} in {${(expression.value as Array<any>).join(', ')}}`;
+    } else {
+        text = `${expression.column} ${expression.operator} ${expression.value}`;
+    }
+    return expression.negate ? `NOT ${text}` : text;
+}
+
+// Remplace les options d'un dropdown (avec une option par défaut non sélectionnable)
+function replaceSelectOptions(select: HTMLSelectElement, options: Array<string>, defaultOptLabel?: string): void {
+    select.innerHTML = '';
+    if (defaultOptLabel) select.appendChild(createSelectionDefaultOption(defaultOptLabel));
+    options.forEach(option => {
+        const opt = document.createElement('option');
+        opt.value = option;
+        opt.innerText = option;
+        select.appendChild(opt);
+    });
+}
+
+// Permet de recharger les filtres du panneau depuis le code (configuration restaurée)
+// et de suivre les lignes reçues en continu (valeurs proposées)
+interface MultiFilterUI {
+    setFilters(filters: FilterExpression[], notify?: boolean): void;
+    setData(data: ReadonlyArray<Object>): void;
+}
+
+// Élément du panneau de filtres : une condition ou un groupe de conditions
+interface FilterNode {
+    element: HTMLDivElement;
+    hr?: HTMLHRElement;
+    getExpression(): FilterExpression | null; // null tant que la condition n'est pas appliquée
+    refreshValues(): void; // Recalcule les valeurs proposées à partir des lignes courantes
 }
 
 //  Crée la partie d'UI permettant d'ajouter des filtres dynamiques sur un ensemble de données
+//  Les éléments de premier niveau sont combinés par ET ; les groupes permettent OU, NON et l'imbrication
 function createMultiFilterUI(
     data: ReadonlyArray<Object>,
     features: Array<string>,
     numericFeatures: ReadonlyArray<string>,
     container: HTMLElement,
-    onFiltersChanged: (filters: Filter[]) => void
-): void {
-    const filtersMap = new Map<number, Filter>();
-    let filterIdCounter = 0;
+    onFiltersChanged: (filters: FilterExpression[]) => void
+): MultiFilterUI {
+    const rootNodes: FilterNode[] = [];
+    let rows = data; // Remplacées quand des lignes arrivent en continu
 
-    const filterRows: { rowDiv: HTMLDivElement, hr?: HTMLHRElement }[] = [];
     const filterPanel = document.createElement('div');
     filterPanel.className = 'multi-filter-panel';
     container.appendChild(filterPanel);
 
-    const addFilterButton = document.createElement('button');
-    addFilterButton.innerText = 'Add filter';
-    addFilterButton.className = 'add-filter-button';
+    const summary = document.createElement('div');
+    summary.className = 'filter-summary';
+
+    // Transmet les filtres appliqués (et met à jour le résumé lisible)
+    const emit = () => {
+        const filters = rootNodes
+            .map(node => node.getExpression())
+            .filter((e): e is FilterExpression => e !== null);
+        summary.innerText = filters.length > 0 ? filters.map(describeFilterExpression).join(' AND ') : 'No filter applied';
+        onFiltersChanged(filters);
+    };
 
-    addFilterButton.onclick = () => {
+    // Ajoute un élément dans une liste (séparé du précédent par un <hr>)
+    const appendNode = (nodes: FilterNode[], panel: HTMLElement, createNode: (onRemove: () => void) => FilterNode) => {
         let hr: HTMLHRElement | undefined;
-        if (filterRows.length > 0) {
+        if (nodes.length > 0) {
             hr = document.createElement('hr');
-            filterPanel.appendChild(hr);
+            panel.appendChild(hr);
         }
+        const node = createNode(() => {
+            if (node.hr) panel.removeChild(node.hr);
+            panel.removeChild(node.element);
+
+            const idx = nodes.indexOf(node);
+            if (idx !== -1) nodes.splice(idx, 1);
+            // Le premier élément restant ne doit pas garder de séparateur
+            if (idx === 0 && nodes.length > 0 && nodes[0].hr) {
+                panel.removeChild(nodes[0].hr);
+                nodes[0].hr = undefined;
+            }
+            emit();
+        });
+        node.hr = hr;
+        nodes.push(node);
+    };
+
+    // Valeurs distinctes d'une colonne (pour les dropdowns '==', '!=' et 'in')
+    const distinctValues = (col: string): Array<string> => {
+        const values = new Set<any>();
+        rows.forEach(d => {
+            const val = (d as any)[col];
+            if (val != null) values.add(val);
+        });
+        return Array.from(values).sort(sortFunction).map(v => String(v));
+    };
+
+    // Une condition : feature, NON, opérateur et valeur(s)
+    const createConditionRow = (panel: HTMLElement, onRemove: () => void, initial?: Filter): FilterNode => {
+        let applied: Filter | null = null;
 
         const rowDiv = document.createElement('div');
         rowDiv.className = 'filter-row';
-        filterPanel.appendChild(rowDiv);
+        panel.appendChild(rowDiv);
 
         // Feature dropdown
         const { label: featureLabel, field: featureDropdown } = createLabeledDropdownWithType('filterFeatureDropdown', features, rowDiv, "Feature:", 'filterFeature');
         showHTMLElements({ label: featureLabel, field: featureDropdown });
 
-        // Value numeric
-        const { label: valLabel, field: valueInput } = createLabeledInput('filterValueInput', "Value:", rowDiv, "number", "0", "0");
+        // Négation
+        const negateCheckbox = createLabeledCheckbox('filterNegateCheckbox', 'NOT', rowDiv);
 
         // Operator
-        const { label: opLabel, field: operatorDropdown } = createLabeledDropdownWithType('filterOperatorDropdown', ['==', '<', '<=', '>', '>='], rowDiv, "Operator:", 'filterOperator');
+        const { label: opLabel, field: operatorDropdown } = createLabeledDropdownWithType('filterOperatorDropdown', [], rowDiv, "Operator:", 'filterOperator');
+
+        // Value numeric (et borne haute pour 'between')
+        const { label: valLabel, field: valueInput } = createLabeledInput('filterValueInput', "Value:", rowDiv, "number", "0");
+        const { label: val2Label, field: value2Input } = createLabeledInput('filterValue2Input', "And:", rowDiv, "number", "0");
 
         // Dropdown string values
         const { label: strValLabel, field: stringValueSelect } = createLabeledDropdownWithType('stringValueSelect', [], rowDiv, "Value:", 'value');
 
+        // Multi-select pour 'in'
+        const { label: inLabel, field: inValuesSelect } = createLabeledMultiSelect('inValuesSelect', [], rowDiv, "Values:");
+
+        // Texte libre pour 'contains', 'startsWith' et 'regex'
+        const { label: textLabel, field: textInput } = createLabeledInput('filterTextInput', "Text:", rowDiv, "text", "");
 
         const btnsDiv = document.createElement('div');
         btnsDiv.className = 'filter-buttons';
-
-        const applyBtn = document.createElement('button');
-        applyBtn.innerText = 'Apply';
-        applyBtn.className = 'apply-filter-button';
-        btnsDiv.appendChild(applyBtn);
-
-        const removeBtn = document.createElement('button');
-        removeBtn.innerText = 'Remove';
-        removeBtn.className = 'remove-filter-button';
-        btnsDiv.appendChild(removeBtn);
-
+        createButton('Apply', btnsDiv, () => applyCondition(), 'apply-filter-button');
+        createButton('Remove', btnsDiv, onRemove, 'remove-filter-button');
         rowDiv.appendChild(btnsDiv);
 
-        hideHTMLElements(btnsDiv);
+        const valueFields = [
+            { label: valLabel, field: valueInput },
+            { label: val2Label, field: value2Input },
+            { label: strValLabel, field: stringValueSelect },
+            { label: inLabel, field: inValuesSelect },
+            { label: textLabel, field: textInput }
+        ];
 
         // Cacher tant qu'aucune feature n'est choisie
-        const hideOpValInput = () => {
-            hideHTMLElements(
-                { label: opLabel, field: operatorDropdown },
-                { label: valLabel, field: valueInput },
-                { label: strValLabel, field: stringValueSelect }
-            );
-        }
-
-        hideOpValInput();
+        hideHTMLElements(btnsDiv, negateCheckbox, { label: opLabel, field: operatorDropdown }, ...valueFields);
+
+        // Affiche le(s) champ(s) de valeur correspondant à l'opérateur
+        const updateValueFields = () => {
+            hideHTMLElements(...valueFields);
+            const isNumeric = numericFeatures.includes(featureDropdown.value);
+            switch (operatorDropdown.value) {
+                case '':
+                case 'is null':
+                case 'is not null':
+                    break;
+                case 'between':
+                    showHTMLElements(valueFields[0], valueFields[1]);
+                    break;
+                case 'in':
+                    showHTMLElements(valueFields[3]);
+                    break;
+                case 'contains':
+                case 'startsWith':
+                case 'regex':
+                    showHTMLElements(valueFields[4]);
+                    break;
+                default:
+                    showHTMLElements(isNumeric ? valueFields[0] : valueFields[2]);
+                    break;
+            }
+        };
 
         featureDropdown.onchange = () => {
             const col = featureDropdown.value;
-            if (col === "") {
-                hideOpValInput();
-                return;
-            }
+            if (col === "") return;
 
-            if (numericFeatures.includes(col)) {
-                showHTMLElements(
-                    btnsDiv,
-                    { label: opLabel, field: operatorDropdown },
-                    { label: valLabel, field: valueInput }
-                );
-                hideHTMLElements({ label: strValLabel, field: stringValueSelect });
-            } else {
-                hideHTMLElements(
-                    { label: opLabel, field: operatorDropdown },
-                    { label: valLabel, field: valueInput }
-                );
-                showHTMLElements(btnsDiv, { label: strValLabel, field: stringValueSelect });
-
-                const distinctVals = new Set<any>();
-                data.forEach(d => {
-                    const val = (d as any)[col];
-                    if (val != null) distinctVals.add(val);
-                });
-                distinctVals.forEach(v => {
-                    const opt = document.createElement('option');
-                    opt.value = String(v);
-                    opt.innerText = String(v);
-                    stringValueSelect.appendChild(opt);
-                });
-            }
+            const isNumeric = numericFeatures.includes(col);
+            replaceSelectOptions(operatorDropdown, isNumeric ? NUMERIC_FILTER_OPERATORS : STRING_FILTER_OPERATORS);
+            operatorDropdown.value = '==';
+
+            const values = distinctValues(col);
+            replaceSelectOptions(stringValueSelect, values, "Choose a value");
+            replaceSelectOptions(inValuesSelect, values);
+
+            showHTMLElements(btnsDiv, negateCheckbox, { label: opLabel, field: operatorDropdown });
+            updateValueFields();
         };
 
-        applyBtn.onclick = () => {
+        operatorDropdown.onchange = updateValueFields;
+
+        // Nouvelles valeurs distinctes ajoutées aux listes, la sélection en cours est conservée
+        // (une colonne numérique n'utilise que la liste de l'opérateur `in`)
+        const refreshValues = () => {
             const col = featureDropdown.value;
             if (col === "") return;
+            const selected = stringValueSelect.value;
+            const selectedIn = Array.from(inValuesSelect.selectedOptions).map(opt => opt.value);
 
-            let fil: Filter;
-            if (numericFeatures.includes(col)) {
-                const operator = operatorDropdown.value;
-                const val = valueInput.value;
-                fil = { column: col, operator, value: val };
-            } else {
-                const val = stringValueSelect.value;
-                fil = { column: col, operator: '==', value: val };
+            const values = distinctValues(col);
+            if (!numericFeatures.includes(col)) {
+                replaceSelectOptions(stringValueSelect, values, "Choose a value");
+                if (values.includes(selected)) stringValueSelect.value = selected;
             }
+            replaceSelectOptions(inValuesSelect, values);
+            Array.from(inValuesSelect.options).forEach(opt => {
+                opt.selected = selectedIn.includes(opt.value);
+            });
+        };
 
-            // Vérifier si ce rowDiv a déjà un filterId
-            let fid = rowDiv.dataset.filterId ? Number(rowDiv.dataset.filterId) : NaN;
-            if (isNaN(fid)) {
-                // Nouveau filtre
-                fid = ++filterIdCounter;
-                rowDiv.dataset.filterId = fid.toString();
+        const applyCondition = () => {
+            const col = featureDropdown.value;
+            const operator = operatorDropdown.value;
+            if (col === "" || operator === "") return;
+
+            let value: any;
+            switch (operator) {
+                case 'is null':
+                case 'is not null':
+                    value = null;
+                    break;
+                case 'between':
+                    value = [valueInput.value, value2Input.value];
+                    break;
+                case 'in':
+                    value = Array.from(inValuesSelect.selectedOptions).map(opt => opt.value);
+                    break;
+                case 'contains':
+                case 'startsWith':
+                case 'regex':
+                    value = textInput.value;
+                    if (operator === 'regex') {
+                        try {
+                            new RegExp(value);
+                        } catch (error: unknown) {
+                            alert(`Invalid regular expression: ${value}`);
+                            return;
+                        }
+                    }
+                    break;
+                default:
+                    value = numericFeatures.includes(col) ? valueInput.value : stringValueSelect.value;
+                    break;
             }
-            filtersMap.set(fid, fil);
-            onFiltersChanged(Array.from(filtersMap.values()));
+
+            applied = { column: col, operator, value, negate: negateCheckbox.field.checked };
+            emit();
         };
 
-        removeBtn.onclick = () => {
-            // Retrouver l'ID du filtre dans cette row
-            const fid = rowDiv.dataset.filterId ? Number(rowDiv.dataset.filterId) : NaN;
-            if (!isNaN(fid)) {
-                // On supprime ce filtre
-                filtersMap.delete(fid);
-                onFiltersChanged(Array.from(filtersMap.values()));
-            } //else {
-            // Si aucun filtre n'a été appliqué, rien à retirer de filtersMap
-            //}
-
-            // Retirer le hr associé (s'il existe)
-            if (hr) {
-                filterPanel.removeChild(hr);
+        if (initial) {
+            featureDropdown.value = initial.column;
+            featureDropdown.onchange!(new Event('change'));
+            operatorDropdown.value = initial.operator;
+            negateCheckbox.field.checked = !!initial.negate;
+            switch (initial.operator) {
+                case 'between':
+                    valueInput.value = String(initial.value[0]);
+                    value2Input.value = String(initial.value[1]);
+                    break;
+                case 'in':
+                    Array.from(inValuesSelect.options).forEach(opt => {
+                        opt.selected = (initial.value as Array<any>).map(String).includes(opt.value);
+                    });
+                    break;
+                case 'contains':
+                case 'startsWith':
+                case 'regex':
+                    textInput.value = String(initial.value);
+                    break;
+                default:
+                    valueInput.value = String(initial.value);
+                    stringValueSelect.value = String(initial.value);
+                    break;
             }
-            // Retirer la ligne
-            filterPanel.removeChild(rowDiv);
+            updateValueFields();
+            applied = initial;
+        }
+
+        return { element: rowDiv, getExpression: () => applied, refreshValues };
+    };
+
+    // Un groupe : combinaison ET/OU de conditions et de sous-groupes, éventuellement niée
+    const createGroup = (panel: HTMLElement, onRemove: () => void, initial?: FilterGroup): FilterNode => {
+        const children: FilterNode[] = [];
+
+        const groupDiv = document.createElement('div');
+        groupDiv.className = 'filter-group';
+        panel.appendChild(groupDiv);
 
-            // Retirer la ligne du tableau
-            const idx = filterRows.findIndex(fr => fr.rowDiv === rowDiv);
-            if (idx !== -1) {
-                filterRows.splice(idx, 1);
+        const combinatorDropdown = createLabeledDropdownWithType('filterCombinatorDropdown', [], groupDiv, "Match:");
+        replaceSelectOptions(combinatorDropdown.field, ['or', 'and']);
+        combinatorDropdown.field.value = initial?.combinator ?? 'or';
+        combinatorDropdown.field.onchange = emit;
+
+        const negateCheckbox = createLabeledCheckbox('filterGroupNegateCheckbox', 'NOT', groupDiv);
+        negateCheckbox.field.checked = !!initial?.negate;
+        negateCheckbox.field.onchange = emit;
+        showHTMLElements(combinatorDropdown, negateCheckbox);
+
+        const childrenPanel = document.createElement('div');
+        childrenPanel.className = 'multi-filter-panel';
+        groupDiv.appendChild(childrenPanel);
+
+        const btnsDiv = document.createElement('div');
+        btnsDiv.className = 'filter-buttons';
+        createButton('Add condition', btnsDiv, () => appendNode(children, childrenPanel, remove => createConditionRow(childrenPanel, remove)), 'add-filter-button');
+        createButton('Add group', btnsDiv, () => appendNode(children, childrenPanel, remove => createGroup(childrenPanel, remove)), 'add-filter-button');
+        createButton('Remove group', btnsDiv, onRemove, 'remove-filter-button');
+        groupDiv.appendChild(btnsDiv);
+
+        initial?.conditions.forEach(c => appendNode(children, childrenPanel, remove => isFilterGroup(c)
+            ? createGroup(childrenPanel, remove, c)
+            : createConditionRow(childrenPanel, remove, c)));
+
+        return {
+            element: groupDiv,
+            refreshValues: () => children.forEach(node => node.refreshValues()),
+            getExpression: () => {
+                const conditions = children
+                    .map(node => node.getExpression())
+                    .filter((e): e is FilterExpression => e !== null);
+                if (conditions.length === 0) return null;
+                return {
+                    combinator: combinatorDropdown.field.value as 'and' | 'or',
+                    negate: negateCheckbox.field.checked,
+                    conditions
+                };
             }
         };
+    };
+
+    const btnsDiv = document.createElement('div');
+    btnsDiv.className = 'filter-buttons';
+    const addFilterButton = createButton('Add filter', btnsDiv, () => appendNode(rootNodes, filterPanel, remove => createConditionRow(filterPanel, remove)), 'add-filter-button');
+    createButton('Add OR group', btnsDiv, () => appendNode(rootNodes, filterPanel, remove => createGroup(filterPanel, remove)), 'add-filter-button');
+    addFilterButton.title = 'Top-level filters are combined with AND';
+
+    container.appendChild(btnsDiv);
+    container.appendChild(summary);
+    summary.innerText = 'No filter applied';
 
-        filterRows.push({ rowDiv, hr });
+    return {
+        setFilters(filters: FilterExpression[], notify: boolean = true): void {
+            // On repart d'un panneau vide
+            rootNodes.length = 0;
+            filterPanel.innerHTML = '';
+
+            filters.forEach(fil => appendNode(rootNodes, filterPanel, remove => isFilterGroup(fil)
+                ? createGroup(filterPanel, remove, fil)
+                : createConditionRow(filterPanel, remove, fil)));
+            summary.innerText = filters.length > 0 ? filters.map(describeFilterExpression).join(' AND ') : 'No filter applied';
+            if (notify) onFiltersChanged(filters);
+        },
+        setData(data: ReadonlyArray<Object>): void {
+            rows = data;
+            rootNodes.forEach(node => node.refreshValues());
+        }
     };
+}
+
+/**********************************
+ * Sélection dans les graphiques (filtrage croisé)
+ **********************************/
+
+// Événement émis par un graphique quand l'utilisateur sélectionne des données (detail : { filters: Array<FilterExpression> })
+export const SELECTION_FILTER_EVENT = 'dataviz-selection-filter';
 
-    container.appendChild(addFilterButton);
+// Émet une sélection sous forme de filtres ; rien n'est émis si aucun filtre n'a pu être construit
+function dispatchSelection(area: HTMLElement, filters: Array<FilterExpression | null>): void {
+    const selected = filters.filter((f): f is FilterExpression => f !== null);
+    if (selected.length === 0) return;
+    area.dispatchEvent(new CustomEvent(SELECTION_FILTER_EVENT, { bubbles: true, detail: { filters: selected } }));
 }
 
+// Intervalle sélectionné ; un intervalle de découpage [a, b) exclut sa borne haute
+function rangeFilter(feature: string, [min, max]: [number, number], includeMax: boolean = true): FilterExpression {
+    if (includeMax) return { column: feature, operator: 'between', value: [min, max] };
+    return {
+        combinator: 'and',
+        conditions: [
+            { column: feature, operator: '>=', value: min },
+            { column: feature, operator: '<', value: max }
+        ]
+    };
+}
 
-//  Extrait/injecte un Filter[] dans applyFiltering pour l'appliquer aux données après
-function applyFiltering(data: Array<Object>, filters: Filter[]): Array<Object> {
-    return data.filter(d => {
-        return filters.every(fil => {
-            const rowVal = (d as any)[fil.column];
-            if (rowVal == null) return false;
+// Valeur sélectionnée (barre, cellule) : intervalle si la feature a été découpée, sinon valeur exacte comparée comme texte
+function valueFilter(feature: string, value: any, bins?: FeatureBins): FilterExpression {
+    const index = bins ? bins.labels.indexOf(value) : -1;
+    if (bins && index >= 0) return rangeFilter(feature, bins.ranges[index], index === bins.ranges.length - 1);
+    return { column: feature, operator: 'in', value: [String(value)] };
+}
 
-            switch (fil.operator) {
-                case '==': return rowVal == fil.value;
-                case '<': return rowVal < +fil.value;
-                case '<=': return rowVal <= +fil.value;
-                case '>': return rowVal > +fil.value;
-                case '>=': return rowVal >= +fil.value;
-                default: return true;
-            }
-        });
-    });
+// Rectangle de sélection d'un Line Chart / Scatter Plot ; les features mises à l'échelle sont ignorées
+// (les filtres portent sur les valeurs d'origine) et Y n'est filtré que pour une seule feature Y
+function brushFilters(
+    xFeature: string,
+    yFeatures: Array<string>,
+    xCategories: Array<any> | null,
+    axisLabels: Record<string, string>,
+    [x0, x1]: [number, number],
+    yRange: [number, number]
+): Array<FilterExpression | null> {
+    let xFilter: FilterExpression | null = null;
+    if (!(xFeature in axisLabels)) {
+        // Axe catégoriel : x est le rang de la catégorie
+        const selected = xCategories ? xCategories.filter((_, i) => i >= x0 && i <= x1).map(String) : null;
+        xFilter = !selected ? rangeFilter(xFeature, [x0, x1]) : selected.length > 0 ? { column: xFeature, operator: 'in', value: selected } : null;
+    }
+    const yFilter = yFeatures.length === 1 && !(yFeatures[0] in axisLabels) ? rangeFilter(yFeatures[0], yRange) : null;
+    return [xFilter, yFilter];
 }
 
-export default class Dataviz {
-    static controlsCreated = false;
+// Permet de recharger le regroupement depuis le code (configuration restaurée)
+interface GroupByUI {
+    setGroupBy(groupBy?: GroupBySpec): void;
+}
 
-    // Variables statiques pour stocker les données actuelles
-    static currentData: Readonly<Array<Object>> = [];
-    static currentName: string = "";
-    static currentFeatures: Readonly<Array<string>> = [];
-    static currentTypes: Readonly<Array<string>> = [];
-    static currentEnumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map();
+// Crée la partie d'UI du regroupement : clés (plusieurs) et mesures (feature + méthode)
+function createGroupByUI(
+    container: HTMLDivElement,
+    features: Array<string>,
+    onGroupByChanged: () => void
+): GroupByUI {
+    const enableCheckbox = createLabeledCheckbox('groupRows', 'Group rows', container);
+    const keysSelect = createLabeledMultiSelect('groupByKeysSelect', features, container, 'Group by columns:');
+    showHTMLElements(enableCheckbox, keysSelect);
+
+    const measuresPanel = document.createElement('div');
+    measuresPanel.className = 'multi-filter-panel';
+    measuresPanel.id = 'measuresPanel';
+    container.appendChild(measuresPanel);
+
+    // Une mesure : feature, méthode et percentile éventuel
+    const addMeasureRow = (initial?: AggregationMeasure) => {
+        const rowDiv = document.createElement('div');
+        rowDiv.className = 'filter-row measure-row';
+        measuresPanel.appendChild(rowDiv);
 
-    static controlsSurface: any = null;
-    static chartSurface: any = null;
-    static chartDiv: HTMLDivElement | null = null;
+        const featureDropdown = createLabeledDropdownWithType('measureFeatureDropdown', [], rowDiv, 'Measure of:');
+        replaceSelectOptions(featureDropdown.field, ['*', ...[...features].sort(sortFunction)]);
+        (featureDropdown.field.options[0] as HTMLOptionElement).text = '(all rows)';
+        featureDropdown.field.classList.add('measure-feature');
 
-    static Setup(
-        dataviz: {
-            dataviz_area: HTMLDivElement,
+        const methodDropdown = createLabeledDropdownWithType('measureMethodDropdown', [], rowDiv, 'Method:');
+        replaceSelectOptions(methodDropdown.field, MEASURE_METHODS);
+        methodDropdown.field.classList.add('measure-method');
+
+        const percentileInput = createLabeledInput('measurePercentileInput', 'Percentile:', rowDiv, 'number', '90', '0', '1');
+        percentileInput.field.max = '100';
+        percentileInput.field.classList.add('measure-percentile');
+
+        featureDropdown.field.value = initial?.feature ?? '*';
+        methodDropdown.field.value = initial?.method ?? 'count';
+        if (initial?.percentile !== undefined) percentileInput.field.value = String(initial.percentile);
+
+        const updatePercentileVisibility = () => {
+            if (methodDropdown.field.value === 'percentile') {
+                showHTMLElements(percentileInput);
+            } else {
+                hideHTMLElements(percentileInput);
+            }
+        };
+        showHTMLElements(featureDropdown, methodDropdown);
+        updatePercentileVisibility();
+
+        featureDropdown.field.onchange = onGroupByChanged;
+        methodDropdown.field.onchange = () => {
+            updatePercentileVisibility();
+            onGroupByChanged();
+        };
+        percentileInput.field.onchange = onGroupByChanged;
+
+        const btnsDiv = document.createElement('div');
+        btnsDiv.className = 'filter-buttons';
+        createButton('Remove', btnsDiv, () => {
+            measuresPanel.removeChild(rowDiv);
+            onGroupByChanged();
+        }, 'remove-filter-button');
+        rowDiv.appendChild(btnsDiv);
+    };
+
+    const btnsDiv = document.createElement('div');
+    btnsDiv.className = 'filter-buttons';
+    createButton('Add measure', btnsDiv, () => {
+        addMeasureRow();
+        onGroupByChanged();
+    }, 'add-filter-button');
+    container.appendChild(btnsDiv);
+
+    enableCheckbox.field.onchange = onGroupByChanged;
+    keysSelect.field.onchange = onGroupByChanged;
+
+    return {
+        setGroupBy(groupBy?: GroupBySpec): void {
+            enableCheckbox.field.checked = !!groupBy;
+            Array.from(keysSelect.field.options).forEach(opt => {
+                opt.selected = !!groupBy && groupBy.keys.includes(opt.value);
+            });
+            measuresPanel.innerHTML = '';
+            (groupBy?.measures ?? []).forEach(m => addMeasureRow(m));
+        }
+    };
+}
+
+// Lit le regroupement défini dans l'UI (undefined s'il n'est pas activé)
+function readGroupByFromControls(): GroupBySpec | undefined {
+    if (!(document.getElementById('groupRows') as HTMLInputElement).checked) return undefined;
+
+    const keys = Array.from((document.getElementById('groupByKeysSelect') as HTMLSelectElement).selectedOptions).map(opt => opt.value);
+    const measures: Array<AggregationMeasure> = [];
+    document.querySelectorAll<HTMLDivElement>('#measuresPanel .measure-row').forEach(row => {
+        const method = (row.querySelector('.measure-method') as HTMLSelectElement).value as MeasureMethod;
+        const measure: AggregationMeasure = {
+            feature: (row.querySelector('.measure-feature') as HTMLSelectElement).value,
+            method
+        };
+        if (method === 'percentile') {
+            measure.percentile = parseFloat((row.querySelector('.measure-percentile') as HTMLInputElement).value) || 50;
+        }
+        measures.push(measure);
+    });
+    return { keys, measures };
+}
+
+// Ajoute aux dropdowns les colonnes produites par le group-by (mesures, clés non listées)
+function refreshGroupByOptions(selects: Array<HTMLSelectElement>, groupBy: GroupBySpec | undefined): void {
+    const columns = groupBy ? [...groupBy.keys, ...groupBy.measures.map(measureName)] : [];
+    selects.forEach(select => {
+        select.querySelectorAll('option[data-group-by]').forEach(opt => select.removeChild(opt));
+        columns.forEach(column => {
+            if (Array.from(select.options).some(opt => opt.value === column)) return;
+            const opt = document.createElement('option');
+            opt.value = column;
+            opt.innerText = column;
+            opt.dataset.groupBy = 'true';
+            select.appendChild(opt);
+        });
+    });
+}
+
+/**********************************
+ * Spécification déclarative des graphiques
+ **********************************/
+
+// Vérifie qu'une spécification ne référence que des features existantes
+function validateChartSpec(spec: ChartSpec, features: Readonly<Array<string>>): never | void {
+    if (!CHART_TYPES.includes(spec.chartType)) {
+        handleError('validateChartSpec', `Unknown chart type: ${spec.chartType}`);
+    }
+    const unknown = unknownSpecFeatures(spec, features);
+    if (unknown.length > 0) {
+        handleError('validateChartSpec', `Unknown feature(s): ${unknown.join(', ')}`);
+    }
+}
+
+// Construit la configuration de rendu d'une spécification (CONFIG courant + surcharges de la spec)
+function resolveChartConfig(spec: ChartSpec): VizConfig {
+    const config: VizConfig = JSON.parse(JSON.stringify(CONFIG)); // Copie : la spec ne modifie pas CONFIG
+    if (spec.fontSize !== undefined) config.general.fontSize = spec.fontSize;
+    if (spec.selectable !== undefined) config.general.selectable = spec.selectable;
+    if (spec.colors?.color) config.general.color = spec.colors.color;
+    if (spec.colors?.colorMap) config.heatmap.colorMap = spec.colors.colorMap;
+    if (spec.heatmap?.annotate !== undefined) config.heatmap.annotate = spec.heatmap.annotate;
+    if (spec.heatmap?.center !== undefined) config.heatmap.center = spec.heatmap.center;
+    if (spec.colors?.series) Object.assign(config.general.seriesColorMap, spec.colors.series);
+    if (spec.histogram?.maxBins !== undefined) config.histogram.maxBins = spec.histogram.maxBins;
+    if (spec.histogram?.stats !== undefined) config.histogram.stats = spec.histogram.stats ? '' : false;
+    if (spec.table) Object.assign(config.table, JSON.parse(JSON.stringify(spec.table)));
+    return config;
+}
+
+// Lit les surcharges de mise à l'échelle par colonne
+function readColumnScalingFromControls(): Record<string, ScalingMethod | 'none'> {
+    const columnScaling: Record<string, ScalingMethod | 'none'> = {};
+    document.querySelectorAll<HTMLSelectElement>('#columnScalingContainer select').forEach(select => {
+        if (select.value) columnScaling[select.dataset.column!] = select.value as ScalingMethod | 'none';
+    });
+    return columnScaling;
+}
+
+// Lit l'état des contrôles de l'UI sous forme de spécification
+function readChartSpecFromControls(filters: Array<FilterExpression>): ChartSpec {
+    const chartType = (document.getElementById('chartTypeDropdown') as HTMLSelectElement).value as ChartType;
+
+    const yFeature = (document.getElementById('yAxisDatasetDropdown') as HTMLSelectElement).value;
+    const additionalYFeatures = Array.from((document.getElementById('additionalYSelect') as HTMLSelectElement).selectedOptions)
+        .map(opt => opt.value);
+
+    const applyAggregation = (document.getElementById('applyAggregation') as HTMLInputElement).checked;
+    // Méthode non choisie => moyenne par défaut
+    const aggregationMethod = ((document.getElementById('aggregationDropdown') as HTMLSelectElement).value || 'average') as AggregationMethod;
+
+    const samplingMethod = (document.getElementById('samplingMethodDropdown') as HTMLSelectElement).value;
+
+    const sortColumn = (document.getElementById('sortColumnDropdown') as HTMLSelectElement).value;
+    const sortOrder = (document.getElementById('sortOrderDropdown') as HTMLSelectElement).value as ('asc' | 'desc' | '');
+
+    const comparedDataset = (document.getElementById('compareDatasetDropdown') as HTMLSelectElement).value;
+    const comparisonMode = ((document.getElementById('compareModeDropdown') as HTMLSelectElement).value || 'overlay') as ComparisonMode;
+
+    return {
+        chartType,
+        xFeature: (document.getElementById('xAxisDatasetDropdown') as HTMLSelectElement).value,
+        yFeatures: [yFeature, ...additionalYFeatures],
+        groupFeature: (document.getElementById('groupByDropdown') as HTMLSelectElement).value,
+        rowFeature: (document.getElementById('rowDropdown') as HTMLSelectElement).value,
+        colFeature: (document.getElementById('colDropdown') as HTMLSelectElement).value,
+        valueFeature: (document.getElementById('valDropdown') as HTMLSelectElement).value,
+        bar: {
+            mode: ((document.getElementById('barModeDropdown') as HTMLSelectElement).value || 'simple') as BarMode,
+            orientation: ((document.getElementById('barOrientationDropdown') as HTMLSelectElement).value || 'vertical') as 'vertical' | 'horizontal'
+        },
+        donut: { hole: parseFloat((document.getElementById('donutHoleInput') as HTMLInputElement).value) || 0 },
+        trend: {
+            method: ((document.getElementById('trendMethodDropdown') as HTMLSelectElement).value || 'none') as TrendMethod,
+            degree: parseInt((document.getElementById('trendDegreeInput') as HTMLInputElement).value) || 2,
+            span: parseFloat((document.getElementById('trendSpanInput') as HTMLInputElement).value) || 0.3,
+            perGroup: (document.getElementById('trendPerGroupCheckbox') as HTMLInputElement).checked
+        },
+        correlation: {
+            method: ((document.getElementById('correlationMethodDropdown') as HTMLSelectElement).value || 'pearson') as CorrelationMethod
+        },
+        heatmap: {
+            aggregation: ((document.getElementById('heatmapAggregationDropdown') as HTMLSelectElement).value || 'sum') as MeasureMethod,
+            percentile: parseFloat((document.getElementById('heatmapPercentileInput') as HTMLInputElement).value) || 50,
+            rowBins: parseInt((document.getElementById('rowBinsInput') as HTMLInputElement).value) || 0,
+            colBins: parseInt((document.getElementById('colBinsInput') as HTMLInputElement).value) || 0,
+            annotate: CONFIG.heatmap.annotate,
+            center: CONFIG.heatmap.center
+        },
+        pivot: {
+            aggregation: ((document.getElementById('pivotAggregationDropdown') as HTMLSelectElement).value || 'sum') as MeasureMethod,
+            percentile: parseFloat((document.getElementById('pivotPercentileInput') as HTMLInputElement).value) || 50,
+            percentMode: ((document.getElementById('pivotPercentDropdown') as HTMLSelectElement).value || 'none') as PivotOptions['percentMode'],
+            showTotals: (document.getElementById('pivotTotalsCheckbox') as HTMLInputElement).checked,
+            withHeatmap: (document.getElementById('pivotWithHeatmapCheckbox') as HTMLInputElement).checked
+        },
+        filters,
+        normalize: (document.getElementById('normalize') as HTMLInputElement).checked,
+        scaling: ((document.getElementById('scalingMethodDropdown') as HTMLSelectElement).value || 'min-max') as ScalingMethod,
+        columnScaling: readColumnScalingFromControls(),
+        removeOutliers: (document.getElementById('removeOutliers') as HTMLInputElement).checked,
+        outlierThreshold: parseFloat((document.getElementById('outlierThresholdInput') as HTMLInputElement).value) || undefined,
+        outliers: {
+            method: ((document.getElementById('outlierMethodDropdown') as HTMLSelectElement).value || 'iqr') as OutlierMethod,
+            scope: ((document.getElementById('outlierScopeDropdown') as HTMLSelectElement).value || 'all') as 'all' | 'plotted',
+            mode: ((document.getElementById('outlierModeDropdown') as HTMLSelectElement).value || 'drop') as 'drop' | 'mark'
+        },
+        aggregation: applyAggregation ? aggregationMethod : undefined,
+        groupBy: readGroupByFromControls(),
+        missingValues: {
+            policy: ((document.getElementById('missingPolicyDropdown') as HTMLSelectElement).value || 'keep') as MissingValuePolicy,
+            fillValue: (document.getElementById('missingFillInput') as HTMLInputElement).value
+        },
+        sampling: samplingMethod && samplingMethod !== 'none' ? {
+            method: samplingMethod as SamplingMethod,
+            maxPoints: parseInt((document.getElementById('maxPointsInput') as HTMLInputElement).value) || DEFAULT_MAX_POINTS
+        } : undefined,
+        sort: sortColumn && sortOrder ? { column: sortColumn, order: sortOrder } : undefined,
+        // Paramètres de rendu tenus à jour dans CONFIG par les listeners des contrôles
+        colors: {
+            color: CONFIG.general.color,
+            series: { ...CONFIG.general.seriesColorMap },
+            colorMap: CONFIG.heatmap.colorMap
+        },
+        fontSize: CONFIG.general.fontSize,
+        selectable: CONFIG.general.selectable,
+        histogram: { maxBins: CONFIG.histogram.maxBins, stats: CONFIG.histogram.stats !== false },
+        table: JSON.parse(JSON.stringify(CONFIG.table)),
+        compare: comparedDataset ? { dataset: comparedDataset, mode: comparisonMode } : undefined
+    };
+}
+
+// Recharge une spécification dans les contrôles de l'UI (et dans CONFIG) ; les filtres sont rechargés à part
+function applyChartSpecToControls(spec: ChartSpec, controls: ControlElements): void {
+    const { chart, axes, dataProcessing, heatmap, pivot, histogram, bar, correlation, lineScatter, trend, tableSorting } = controls;
+    const [yFeature = "", ...additionalYFeatures] = spec.yFeatures ?? [];
+
+    chart.chartTypeDropdown.field.value = spec.chartType;
+    chart.compareDatasetDropdown.field.value = spec.compare?.dataset ?? "";
+    chart.compareModeDropdown.field.value = spec.compare?.mode ?? "";
+    axes.xAxisDatasetDropdown.field.value = spec.xFeature ?? "";
+    axes.yAxisDatasetDropdown.field.value = yFeature;
+    Array.from(lineScatter.additionalYSelect.field.options).forEach(opt => {
+        opt.selected = additionalYFeatures.includes(opt.value);
+    });
+    lineScatter.groupByDropdown.field.value = spec.groupFeature ?? "";
+    bar.barModeDropdown.field.value = spec.bar?.mode ?? "";
+    bar.barOrientationDropdown.field.value = spec.bar?.orientation ?? "";
+    bar.donutHoleInput.field.value = String(spec.donut?.hole ?? 0.5);
+    trend.trendMethodDropdown.field.value = spec.trend?.method ?? "";
+    trend.trendDegreeInput.field.value = String(spec.trend?.degree ?? 2);
+    trend.trendSpanInput.field.value = String(spec.trend?.span ?? 0.3);
+    trend.trendPerGroupCheckbox.field.checked = !!spec.trend?.perGroup;
+
+    heatmap.rowDropdown.field.value = spec.rowFeature ?? "";
+    heatmap.colDropdown.field.value = spec.colFeature ?? "";
+    heatmap.valDropdown.field.value = spec.valueFeature ?? "";
+    correlation.correlationMethodDropdown.field.value = spec.correlation?.method ?? "";
+    heatmap.heatmapAggregationDropdown.field.value = spec.heatmap?.aggregation ?? "";
+    heatmap.heatmapPercentileInput.field.value = String(spec.heatmap?.percentile ?? 90);
+    heatmap.rowBinsInput.field.value = String(spec.heatmap?.rowBins ?? 0);
+    heatmap.colBinsInput.field.value = String(spec.heatmap?.colBins ?? 0);
+    if (spec.heatmap?.annotate !== undefined) {
+        CONFIG.heatmap.annotate = spec.heatmap.annotate;
+        heatmap.annotateCheckbox.field.checked = spec.heatmap.annotate;
+    }
+    if (spec.heatmap?.center !== undefined) {
+        CONFIG.heatmap.center = spec.heatmap.center;
+        heatmap.colorCenterInput.field.value = String(spec.heatmap.center);
+    }
+    pivot.pivotAggregationDropdown.field.value = spec.pivot?.aggregation ?? "";
+    pivot.pivotPercentileInput.field.value = String(spec.pivot?.percentile ?? 90);
+    pivot.pivotPercentDropdown.field.value = spec.pivot?.percentMode ?? "";
+    pivot.pivotTotalsCheckbox.field.checked = spec.pivot?.showTotals ?? true;
+    pivot.pivotWithHeatmapCheckbox.field.checked = !!spec.pivot?.withHeatmap;
+
+    dataProcessing.normalizeCheckbox.field.checked = !!spec.normalize;
+    dataProcessing.scalingMethodDropdown.field.value = spec.scaling ?? "";
+    dataProcessing.columnScalingContainer.querySelectorAll('select').forEach(select => {
+        select.value = spec.columnScaling?.[select.dataset.column!] ?? "";
+    });
+    dataProcessing.removeOutliersCheckbox.field.checked = !!spec.removeOutliers;
+    dataProcessing.outlierMethodDropdown.field.value = spec.outliers?.method ?? "";
+    dataProcessing.outlierThresholdInput.field.value = String(spec.outlierThreshold ?? OUTLIER_DETECTORS[spec.outliers?.method ?? 'iqr'].defaultThreshold);
+    dataProcessing.outlierScopeDropdown.field.value = spec.outliers?.scope ?? "";
+    dataProcessing.outlierModeDropdown.field.value = spec.outliers?.mode ?? "";
+    dataProcessing.applyAggregationCheckbox.field.checked = !!spec.aggregation;
+    dataProcessing.aggregationDropdown.field.value = spec.aggregation ?? "";
+    dataProcessing.missingPolicyDropdown.field.value = spec.missingValues?.policy ?? "";
+    dataProcessing.missingFillInput.field.value = spec.missingValues?.fillValue ?? '0';
+    dataProcessing.samplingMethodDropdown.field.value = spec.sampling?.method ?? "";
+    dataProcessing.maxPointsInput.field.value = String(spec.sampling?.maxPoints ?? DEFAULT_MAX_POINTS);
+
+    tableSorting.sortColumnDropdown.field.value = spec.sort?.column ?? "";
+    tableSorting.sortOrderDropdown.field.value = spec.sort?.order ?? "";
+    if (spec.table) {
+        Object.assign(CONFIG.table, JSON.parse(JSON.stringify(spec.table)));
+    }
+
+    // Paramètres de rendu
+    if (spec.fontSize !== undefined) {
+        CONFIG.general.fontSize = spec.fontSize;
+        chart.fontSizeInput.field.value = String(spec.fontSize);
+    }
+    if (spec.selectable !== undefined) {
+        CONFIG.general.selectable = spec.selectable;
+        chart.selectionCheckbox.field.checked = spec.selectable;
+    }
+    if (spec.colors?.color) {
+        CONFIG.general.color = spec.colors.color;
+        bar.barColorInput.field.value = spec.colors.color;
+        histogram.histColorInput.field.value = spec.colors.color;
+    }
+    if (spec.colors?.colorMap) {
+        CONFIG.heatmap.colorMap = spec.colors.colorMap;
+        heatmap.colorMapDropdown.field.value = spec.colors.colorMap;
+    }
+    if (spec.colors?.series) {
+        Object.assign(CONFIG.general.seriesColorMap, spec.colors.series);
+    }
+    if (spec.histogram?.maxBins !== undefined) {
+        CONFIG.histogram.maxBins = spec.histogram.maxBins;
+        histogram.maxBinsInput.field.value = String(spec.histogram.maxBins);
+    }
+    if (spec.histogram?.stats !== undefined) {
+        CONFIG.histogram.stats = spec.histogram.stats ? '' : false;
+        histogram.statsCheckbox.field.checked = spec.histogram.stats;
+    }
+}
+
+/**********************************
+ * Jeux de données multiples et comparaison
+ **********************************/
+
+// Dataset enregistré sous un nom (p.ex. résultats d'une table DMN avant et après modification)
+export interface DatasetEntry extends DatasetSchema {
+    data: Readonly<Array<Object>>;
+}
+
+const DATASET_COLUMN = 'Dataset'; // Origine de chaque ligne superposée
+const CHANGED_COLUMN = 'Changed'; // Ligne dont au moins une valeur diffère dans le dataset comparé
+const OVERLAY_CHART_TYPES: Array<ChartType> = ['Line Chart', 'Scatter Plot', 'Bar Chart', 'Box Plot', 'Violin Plot', 'Table'];
+
+// Colonnes produites par la comparaison ligne à ligne
+const deltaColumn = (feature: string): string => `Δ ${feature}`;
+const otherColumn = (feature: string, name: string): string => `${feature} (${name})`;
+
+// Réunit les lignes des deux datasets (features communes) avec leur origine dans la colonne Dataset,
+// combinée à la feature de regroupement du graphique s'il y en a une
+function overlayDatasets(names: [string, string], datasets: [DatasetEntry, DatasetEntry], groupFeature: string): DatasetEntry {
+    const [current, other] = datasets;
+    const shared = current.features.filter(f => other.features.includes(f));
+    const groupEnumeration = current.enumerations?.get(groupFeature);
+    const groupValues = groupFeature
+        ? orderCategories(([] as Array<any>).concat(...datasets.map(d => d.data.map(row => (row as any)[groupFeature]))), groupEnumeration)
+        : [];
+    const label = (name: string, value: any): string => groupFeature ? `${name} / ${value}` : name;
+
+    const data = ([] as Array<Object>).concat(...datasets.map((dataset, i) => dataset.data.map(row => {
+        const datum: Record<string, any> = { [DATASET_COLUMN]: label(names[i], (row as any)[groupFeature]) };
+        shared.forEach(f => datum[f] = (row as any)[f]);
+        return datum;
+    })));
+
+    // Séries du dataset courant d'abord, puis celles du dataset comparé, dans l'ordre des catégories
+    const enumerations = new Map(current.enumerations ?? []);
+    enumerations.set(DATASET_COLUMN, groupFeature
+        ? ([] as Array<string>).concat(...names.map(name => groupValues.map(v => label(name, v))))
+        : [...names]);
+
+    return {
+        data,
+        features: [DATASET_COLUMN, ...shared],
+        types: ['string', ...shared.map(f => current.types[current.features.indexOf(f)])],
+        enumerations
+    };
+}
+
+// Apparie les lignes des deux datasets par position et ajoute les différences :
+// Δ feature (courant - comparé) pour les features numériques modifiées, valeur comparée pour les autres
+function diffDatasets(names: [string, string], datasets: [DatasetEntry, DatasetEntry]): DatasetEntry {
+    const [current, other] = datasets;
+    const count = Math.min(current.data.length, other.data.length);
+    const shared = current.features.filter(f => other.features.includes(f));
+    const otherNumeric = identifyNumericColumns(other.data, other.features, other.types);
+    const numeric = identifyNumericColumns(current.data, current.features, current.types).filter(f => otherNumeric.includes(f));
+
+    const rowPairs = current.data.slice(0, count).map((row, i) => [row as Record<string, any>, other.data[i] as Record<string, any>]);
+    const changedFeatures = shared.filter(f => rowPairs.some(([a, b]) => String(a[f]) !== String(b[f])));
+    const deltaFeatures = changedFeatures.filter(f => numeric.includes(f));
+    const otherFeatures = changedFeatures.filter(f => !numeric.includes(f));
+
+    const data = rowPairs.map(([a, b]) => {
+        const datum: Record<string, any> = { ...a };
+        deltaFeatures.forEach(f => {
+            datum[deltaColumn(f)] = typeof a[f] === 'number' && typeof b[f] === 'number' ? a[f] - b[f] : null;
+        });
+        otherFeatures.forEach(f => datum[otherColumn(f, names[1])] = b[f]);
+        datum[CHANGED_COLUMN] = changedFeatures.some(f => String(a[f]) !== String(b[f]));
+        return datum;
+    });
+
+    const enumerations = new Map(current.enumerations ?? []);
+    otherFeatures.forEach(f => enumerations.set(otherColumn(f, names[1]), current.enumerations?.get(f) ?? null));
+
+    return {
+        data,
+        features: [...current.features, ...deltaFeatures.map(deltaColumn), ...otherFeatures.map(f => otherColumn(f, names[1])), CHANGED_COLUMN],
+        types: [
+            ...current.types,
+            ...deltaFeatures.map(() => 'number'),
+            ...otherFeatures.map(f => current.types[current.features.indexOf(f)]),
+            'boolean'
+        ],
+        enumerations
+    };
+}
+
+// Datasets de comparaison déjà construits, par tableau de lignes du dataset courant puis du dataset comparé :
+// les mêmes tableaux sont redonnés aux rendus suivants, dont les étapes du pipeline restent en cache
+let comparisonCache = new WeakMap<ReadonlyArray<Object>, WeakMap<ReadonlyArray<Object>, Map<string, DatasetEntry>>>();
+
+function memoizeComparison(datasets: [DatasetEntry, DatasetEntry], key: string, build: () => DatasetEntry): DatasetEntry {
+    const [current, other] = datasets;
+    let byOther = comparisonCache.get(current.data);
+    if (!byOther) comparisonCache.set(current.data, byOther = new WeakMap());
+    let byKey = byOther.get(other.data);
+    if (!byKey) byOther.set(other.data, byKey = new Map());
+    let dataset = byKey.get(key);
+    if (!dataset) byKey.set(key, dataset = build());
+    return dataset;
+}
+
+// Données et spécification à dessiner quand la spécification compare le dataset courant à un autre
+// (null si aucune comparaison n'est demandée ou possible)
+function buildComparison(
+    spec: ChartSpec,
+    currentName: string,
+    datasets: ReadonlyMap<string, DatasetEntry>
+): { spec: ChartSpec; dataset: DatasetEntry; notes: Array<string> } | null {
+    const current = datasets.get(currentName);
+    const other = spec.compare ? datasets.get(spec.compare.dataset) : undefined;
+    if (!spec.compare || !current || !other || spec.compare.dataset === currentName) return null;
+    const names: [string, string] = [currentName, spec.compare.dataset];
+
+    if (spec.compare.mode === 'diff') {
+        const dataset = memoizeComparison([current, other], JSON.stringify(['diff', ...names]), () => diffDatasets(names, [current, other]));
+        const changedRows = dataset.data.filter(d => (d as any)[CHANGED_COLUMN]).length;
+        const notes = [`${changedRows} of ${dataset.data.length} row(s) changed (${names[0]} vs ${names[1]})`];
+        if (current.data.length !== other.data.length) {
+            notes.push(`${Math.abs(current.data.length - other.data.length)} unpaired row(s) ignored`);
+        }
+        // Les features tracées sont remplacées par leurs différences quand elles ont changé
+        const delta = (feature?: string) => feature && dataset.features.includes(deltaColumn(feature)) ? deltaColumn(feature) : feature;
+        return {
+            spec: {
+                ...spec,
+                xFeature: spec.chartType === 'Histogram' ? delta(spec.xFeature) : spec.xFeature,
+                yFeatures: spec.yFeatures?.map(f => delta(f) ?? f),
+                valueFeature: delta(spec.valueFeature)
+            },
+            dataset,
+            notes
+        };
+    }
+
+    if (!OVERLAY_CHART_TYPES.includes(spec.chartType)) {
+        return { spec, dataset: current, notes: [`Overlay not available for ${spec.chartType}: ${names[0]} only`] };
+    }
+    const { groupFeature } = resolveSeriesFeatures(spec);
+    const overlayGroup = spec.chartType === 'Table' ? '' : groupFeature;
+    const dataset = memoizeComparison([current, other], JSON.stringify(['overlay', overlayGroup, ...names]),
+        () => overlayDatasets(names, [current, other], overlayGroup));
+    return {
+        spec: {
+            ...spec,
+            groupFeature: DATASET_COLUMN,
+            // Une barre par dataset dans chaque catégorie ; un group-by conserve l'origine des lignes
+            bar: spec.chartType === 'Bar Chart' && (spec.bar?.mode ?? 'simple') === 'simple' ? { ...spec.bar, mode: 'grouped' } : spec.bar,
+            groupBy: spec.groupBy ? { ...spec.groupBy, keys: [DATASET_COLUMN, ...spec.groupBy.keys] } : undefined
+        },
+        dataset,
+        notes: [`${names[0]} and ${names[1]} overlaid`]
+    };
+}
+
+// Met à jour les listes de datasets des contrôles (dataset courant, datasets comparables)
+function refreshDatasetOptions(chart: ControlElements['chart'], names: Array<string>, currentName: string): void {
+    const { datasetDropdown, compareDatasetDropdown } = chart;
+    const compared = compareDatasetDropdown.field.value;
+    replaceSelectOptions(datasetDropdown.field, names);
+    datasetDropdown.field.value = currentName;
+    replaceSelectOptions(compareDatasetDropdown.field, names.filter(name => name !== currentName), 'No comparison');
+    compareDatasetDropdown.field.options[0].disabled = false;
+    if (compared !== currentName && names.includes(compared)) compareDatasetDropdown.field.value = compared;
+    showDatasetControls(chart, names.length);
+}
+
+// Le choix du dataset n'apparaît qu'à partir de deux datasets enregistrés, le mode une fois la comparaison choisie
+function showDatasetControls(chart: ControlElements['chart'], datasetCount: number): void {
+    const { datasetDropdown, compareDatasetDropdown, compareModeDropdown } = chart;
+    hideHTMLElements(datasetDropdown, compareDatasetDropdown, compareModeDropdown);
+    if (datasetCount < 2) return;
+    showHTMLElements(datasetDropdown, compareDatasetDropdown);
+    if (compareDatasetDropdown.field.value) showHTMLElements(compareModeDropdown);
+}
+
+/**********************************
+ * Mises à jour en continu (lignes émises par le moteur DMN)
+ **********************************/
+
+// Réglages du flux de lignes reçu par Dataviz.push / Dataviz.replace
+export interface StreamingOptions {
+    window: number;   // Nombre de lignes les plus récentes conservées (0 : toutes)
+    throttle: number; // Intervalle minimal entre deux rendus, en ms
+}
+
+/**********************************
+ * Traitement en arrière-plan (Web Worker)
+ **********************************/
+
+// Délai sans nouvelle demande avant de lancer un traitement (p.ex. saisie du seuil des outliers)
+const PIPELINE_DEBOUNCE_DELAY = 150;
+// Paramètres de processChartData envoyés au worker
+interface PipelineInput {
+    data: Readonly<Array<Object>>;
+    spec: ChartSpec;
+    features: Readonly<Array<string>>;
+    numericFeatures: Array<string>;
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>;
+}
+
+// Avancement affiché sur la surface Chart : étapes du traitement en cours et demandes en attente
+interface PipelineProgress {
+    done: number;
+    total: number;
+    waiting: number;
+}
+
+interface PipelineRunner {
+    // Traite les données d'un demandeur (un panneau) ; résout avec null si une demande plus récente du même demandeur
+    // ou un abandon l'a remplacée
+    run(owner: object, input: PipelineInput): Promise<PipelineResult | null>;
+    // Reporte dans la copie du worker un ajout fait en place par appendRows
+    append(data: ReadonlyArray<Object>, rows: ReadonlyArray<Object>, dropCount: number): void;
+    cancel(): void; // Abandonne les traitements en cours et en attente
+    dispose(): void;
+}
+
+// Exécute la chaîne de traitement dans un worker chargé depuis workerUrl (DatavizWorker.js), ou sur le thread principal
+// sans workerUrl ou si le worker ne peut pas être chargé
+function createPipelineRunner(
+    workerUrl: string | URL | null,
+    workerOptions: WorkerOptions,
+    onProgress: (progress: PipelineProgress | null) => void
+): PipelineRunner {
+    interface Job {
+        id: number;
+        owner: object;
+        input: PipelineInput;
+        resolve: (result: PipelineResult | null) => void;
+        reject: (error: Error) => void;
+    }
+    const debounced = new Map<object, { timer: ReturnType<typeof setTimeout>; resolve: (result: null) => void }>();
+    let queue: Array<Job> = [];
+    let running: Job | null = null;
+    let nextId = 0;
+
+    let worker: Worker | null = null;
+    let workerUnavailable = typeof Worker === 'undefined' || !workerUrl;
+    const datasetIds = new WeakMap<ReadonlyArray<Object>, number>();
+    let sentDatasets: Array<number> = []; // Même éviction que dans le worker (voir DatavizWorker.ts)
+
+    const report = (done: number, total: number) => onProgress({ done, total, waiting: queue.length + debounced.size });
+
+    const stopWorker = () => {
+        worker?.terminate();
+        worker = null;
+        sentDatasets = [];
+    };
+
+    const finish = (job: Job) => {
+        if (running !== job) return;
+        running = null;
+        pump();
+    };
+
+    const onWorkerMessage = (event: MessageEvent) => {
+        const reply = event.data as PipelineReply;
+        const job = running;
+        if (!job || reply.id !== job.id) return; // Réponse d'un traitement abandonné
+        if (reply.type === 'progress') {
+            report(reply.done, reply.total);
+        } else if (reply.type === 'result') {
+            job.resolve(reply.result);
+            finish(job);
+        } else if (reply.type === 'missing') {
+            sentDatasets = sentDatasets.filter(id => id !== reply.datasetId);
+            if (worker) dispatch(job, worker);
+        } else {
+            job.reject(new Error(reply.message));
+            finish(job);
+        }
+    };
+
+    const getWorker = (): Worker | null => {
+        if (worker || workerUnavailable) return worker;
+        try {
+            worker = new Worker(workerUrl!, workerOptions);
+            worker.onmessage = onWorkerMessage;
+            // Le worker n'a pas pu être chargé : la demande en cours est refaite sur le thread principal
+            worker.onerror = (event: ErrorEvent) => {
+                event.preventDefault();
+                console.warn(`Dataviz: processing on the main thread (${event.message || 'worker unavailable'})`);
+                workerUnavailable = true;
+                stopWorker();
+                if (running) queue.unshift(running);
+                running = null;
+                pump();
+            };
+        } catch (error) {
+            workerUnavailable = true;
+        }
+        return worker;
+    };
+
+    const dispatch = (job: Job, target: Worker) => {
+        const { data, spec, features, numericFeatures, enumerations } = job.input;
+        let datasetId = datasetIds.get(data);
+        if (datasetId === undefined) {
+            datasetId = ++nextId;
+            datasetIds.set(data, datasetId);
+        }
+        if (!sentDatasets.includes(datasetId)) {
+            target.postMessage({ type: 'dataset', datasetId, data } as PipelineRequest);
+            sentDatasets = [...sentDatasets, datasetId].slice(-PIPELINE_CACHED_DATASETS);
+        }
+        target.postMessage({ type: 'process', id: job.id, datasetId, spec, features, numericFeatures, enumerations } as PipelineRequest);
+    };
+
+    // Lance la prochaine demande (une seule à la fois)
+    function pump(): void {
+        if (running) return;
+        const job = queue.shift();
+        if (!job) {
+            onProgress(debounced.size > 0 ? { done: 0, total: PIPELINE_STAGES, waiting: debounced.size } : null);
+            return;
+        }
+        running = job;
+        report(0, PIPELINE_STAGES);
+
+        const target = getWorker();
+        if (target) {
+            dispatch(job, target);
+            return;
+        }
+        // Sans worker : mêmes étapes sur le thread principal, qui reste utilisable entre deux étapes
+        const { data, spec, features, numericFeatures, enumerations } = job.input;
+        runPipelineStages(processChartStages(data, spec, features, numericFeatures, enumerations),
+            () => running !== job,
+            done => report(done, PIPELINE_STAGES),
+            result => {
+                job.resolve(result);
+                finish(job);
+            },
+            error => {
+                job.reject(error);
+                finish(job);
+            });
+    }
+
+    // Abandonne les demandes d'un demandeur (toutes si owner est null) ; le traitement en cours s'arrête à la fin de son étape
+    const abandon = (owner: object | null) => {
+        debounced.forEach((pending, key) => {
+            if (owner !== null && key !== owner) return;
+            clearTimeout(pending.timer);
+            pending.resolve(null);
+            debounced.delete(key);
+        });
+        queue = queue.filter(job => {
+            if (owner !== null && job.owner !== owner) return true;
+            job.resolve(null);
+            return false;
+        });
+        if (running && (owner === null || running.owner === owner)) {
+            const job = running;
+            running = null;
+            job.resolve(null);
+            worker?.postMessage({ type: 'cancel', id: job.id } as PipelineRequest);
+            pump();
+        }
+    };
+
+    return {
+        run(owner, input) {
+            abandon(owner);
+            return new Promise<PipelineResult | null>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    debounced.delete(owner);
+                    queue.push({ id: ++nextId, owner, input, resolve, reject });
+                    pump();
+                }, PIPELINE_DEBOUNCE_DELAY);
+                debounced.set(owner, { timer, resolve });
+                if (!running) report(0, PIPELINE_STAGES);
+            });
+        },
+        append(data, rows, dropCount) {
+            const datasetId = datasetIds.get(data);
+            // Un dataset que le worker n'a pas (ou plus) lui sera envoyé en entier à la prochaine demande
+            if (worker && datasetId !== undefined && sentDatasets.includes(datasetId)) {
+                worker.postMessage({ type: 'append', datasetId, rows, dropCount } as PipelineRequest);
+            }
+        },
+        cancel() {
+            abandon(null);
+            onProgress(null);
+        },
+        dispose() {
+            abandon(null);
+            stopWorker();
+        }
+    };
+}
+
+// Affiche l'avancement dans l'indicateur de la surface Chart (masqué sans traitement)
+function renderPipelineProgress(indicator: { element: HTMLDivElement; bar: HTMLProgressElement; label: HTMLSpanElement }, progress: PipelineProgress | null): void {
+    if (!progress) {
+        hideHTMLElements(indicator.element);
+        return;
+    }
+    indicator.bar.max = progress.total;
+    indicator.bar.value = progress.done;
+    indicator.label.innerText = `Processing… ${progress.done}/${progress.total}` + (progress.waiting > 0 ? ` (${progress.waiting} waiting)` : '');
+    showHTMLElements(indicator.element);
+}
+
+/**********************************
+ * Sauvegarde et partage des configurations
+ **********************************/
+
+const PRESETS_STORAGE_KEY = 'Dataviz.presets';
+const URL_FRAGMENT_KEY = 'dataviz=';
+
+// Document JSON échangé (fichier, fragment d'URL) pour reproduire un graphique
+export interface VisualizationConfig {
+    format: 'dataviz-config';
+    version: 1;
+    name: string;
+    spec: ChartSpec;
+}
+
+// Sérialise une configuration nommée
+function serializeVisualizationConfig(name: string, spec: ChartSpec): string {
+    const config: VisualizationConfig = { format: 'dataviz-config', version: 1, name, spec };
+    return JSON.stringify(config, null, 2);
+}
+
+// Relit une configuration sérialisée (lève une erreur si le document n'est pas reconnu)
+function parseVisualizationConfig(text: string): VisualizationConfig {
+    const config = JSON.parse(text);
+    if (!config || config.format !== 'dataviz-config' || config.version !== 1 || !config.spec || !config.spec.chartType) {
+        throw new Error('Not a Dataviz configuration document');
+    }
+    return config as VisualizationConfig;
+}
+
+// Lecture des presets enregistrés dans le localStorage
+function loadPresets(): Record<string, ChartSpec> {
+    try {
+        return JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '{}');
+    } catch (error: unknown) {
+        console.warn('loadPresets: stored presets are unreadable and were ignored', error);
+        return {};
+    }
+}
+
+// Écriture des presets dans le localStorage
+function storePresets(presets: Record<string, ChartSpec>): void {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
+
+// Lien de partage : l'URL courante avec la configuration encodée dans le fragment
+function buildShareLink(name: string, spec: ChartSpec): string {
+    const url = new URL(window.location.href);
+    url.hash = URL_FRAGMENT_KEY + encodeURIComponent(JSON.stringify({ format: 'dataviz-config', version: 1, name, spec }));
+    return url.toString();
+}
+
+// Configuration éventuellement présente dans le fragment de l'URL courante
+function readConfigFromUrlFragment(): VisualizationConfig | null {
+    const hash = window.location.hash;
+    const idx = hash.indexOf(URL_FRAGMENT_KEY);
+    if (idx === -1) return null;
+    try {
+        return parseVisualizationConfig(decodeURIComponent(hash.substring(idx + URL_FRAGMENT_KEY.length)));
+    } catch (error: unknown) {
+        console.warn('readConfigFromUrlFragment: ignored invalid configuration in URL', error);
+        return null;
+    }
+}
+
+// Déclenche le téléchargement d'un fichier
+function downloadBlob(fileName: string, blob: Blob): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
+
+// Déclenche le téléchargement d'un contenu texte
+function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+    downloadBlob(fileName, new Blob([content], { type: mimeType }));
+}
+
+// Crée la partie d'UI pour enregistrer, recharger, exporter et importer des configurations
+function createPresetUI(
+    container: HTMLDivElement,
+    getSpec: () => ChartSpec,
+    applySpec: (spec: ChartSpec) => void
+): void {
+    const presetNameInput = createLabeledInput('presetNameInput', 'Preset name:', container, 'text', '');
+    const presetDropdown = createLabeledDropdownWithType('presetDropdown', Object.keys(loadPresets()), container, 'Saved presets:', 'preset');
+    showHTMLElements(presetNameInput, presetDropdown);
+
+    const refreshPresetDropdown = (selected?: string) => {
+        replaceSelectOptions(presetDropdown.field, Object.keys(loadPresets()).sort(sortFunction), 'Choose a saved configuration');
+        if (selected) presetDropdown.field.value = selected;
+    };
+
+    const btnsDiv = document.createElement('div');
+    btnsDiv.className = 'filter-buttons';
+    container.appendChild(btnsDiv);
+
+    createButton('Save', btnsDiv, () => {
+        const name = presetNameInput.field.value.trim() || presetDropdown.field.value;
+        if (!name) {
+            alert('Please give a name to the configuration.');
+            return;
+        }
+        const presets = loadPresets();
+        presets[name] = getSpec();
+        storePresets(presets);
+        refreshPresetDropdown(name);
+    });
+
+    createButton('Load', btnsDiv, () => {
+        const spec = loadPresets()[presetDropdown.field.value];
+        if (spec) {
+            presetNameInput.field.value = presetDropdown.field.value;
+            applySpec(spec);
+        }
+    });
+
+    createButton('Delete', btnsDiv, () => {
+        const presets = loadPresets();
+        if (!(presetDropdown.field.value in presets)) return;
+        delete presets[presetDropdown.field.value];
+        storePresets(presets);
+        refreshPresetDropdown();
+    });
+
+    const shareDiv = document.createElement('div');
+    shareDiv.className = 'filter-buttons';
+    container.appendChild(shareDiv);
+
+    const importInput = document.createElement('input');
+    importInput.type = 'file';
+    importInput.accept = 'application/json,.json';
+    hideHTMLElements(importInput);
+    container.appendChild(importInput);
+
+    const shareLinkInput = createLabeledInput('shareLinkInput', 'Share link:', container, 'text', '');
+    shareLinkInput.field.readOnly = true;
+
+    createButton('Export file', shareDiv, () => {
+        const name = presetNameInput.field.value.trim() || 'chart';
+        downloadTextFile(`${Dataviz.currentName || 'dataviz'}-${name}.json`, serializeVisualizationConfig(name, getSpec()), 'application/json');
+    });
+
+    createButton('Import file', shareDiv, () => importInput.click());
+
+    importInput.onchange = () => {
+        const file = importInput.files?.[0];
+        if (!file) return;
+        file.text().then(text => {
+            const config = parseVisualizationConfig(text);
+            presetNameInput.field.value = config.name;
+            applySpec(config.spec);
+        }).catch((error: unknown) => {
+            console.error('Erreur dans createPresetUI (import) :', error);
+            alert('This file is not a valid visualization configuration.');
+        }).finally(() => {
+            importInput.value = ''; // Permet de réimporter le même fichier
+        });
+    };
+
+    createButton('Copy link', shareDiv, () => {
+        const link = buildShareLink(presetNameInput.field.value.trim() || 'chart', getSpec());
+        shareLinkInput.field.value = link;
+        showHTMLElements(shareLinkInput);
+        if (navigator.clipboard) {
+            navigator.clipboard.writeText(link).catch(() => shareLinkInput.field.select());
+        } else {
+            shareLinkInput.field.select();
+        }
+    });
+}
+
+/**********************************
+ * Export des graphiques et des données
+ **********************************/
+
+// Nom de fichier d'export : nom du dataset + type de graphique
+function exportFileName(chartType: string, extension: string): string {
+    const base = `${Dataviz.currentName || 'dataviz'}-${chartType || 'chart'}`;
+    return `${base.replace(/[^\w\-]+/g, '_')}.${extension}`;
+}
+
+// Convertit des lignes en CSV (colonnes = union des clés, valeurs échappées)
+function toCSV(data: Readonly<Array<Object>>): string {
+    const columns = new Set<string>();
+    data.forEach(d => Object.keys(d).forEach(key => columns.add(key)));
+    const headers = Array.from(columns);
+
+    const escape = (value: any): string => {
+        if (value == null) return '';
+        const str = String(value);
+        return /[",\n\r;]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+
+    const lines = [headers.map(escape).join(',')];
+    data.forEach(d => lines.push(headers.map(h => escape((d as any)[h])).join(',')));
+    return lines.join('\r\n');
+}
+
+// Lignes exportées : le marquage interne des outliers devient la colonne "Outliers" affichée par le tableau
+function exportRows(data: Readonly<Array<Object>>): Array<Object> {
+    if (!data.some(d => (d as any)[OUTLIER_FLAG])) return data.slice();
+    return data.map(d => {
+        const { [OUTLIER_FLAG]: flagged, ...row } = d as Record<string, any>;
+        return { ...row, [OUTLIER_SERIES_NAME]: !!flagged };
+    });
+}
+
+// Sérialise le SVG d'un graphique redessiné pour l'export
+function chartToSVG(svg: SVGSVGElement): string {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    return new XMLSerializer().serializeToString(clone);
+}
+
+// Exporte en PNG un SVG déjà dessiné à la taille voulue
+function exportChartAsPNG(svg: SVGSVGElement, fileName: string): void {
+    const width = parseFloat(svg.getAttribute('width') ?? '') || CONFIG.general.width;
+    const height = parseFloat(svg.getAttribute('height') ?? '') || CONFIG.general.height;
+    const image = new Image();
+    image.onload = () => {
+        const output = document.createElement('canvas');
+        output.width = Math.round(width);
+        output.height = Math.round(height);
+        const ctx = output.getContext('2d')!;
+        ctx.fillStyle = '#ffffff'; // Fond blanc pour les rapports
+        ctx.fillRect(0, 0, output.width, output.height);
+        ctx.drawImage(image, 0, 0, output.width, output.height);
+        output.toBlob(blob => {
+            if (blob) downloadBlob(fileName, blob);
+        }, 'image/png');
+    };
+    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(chartToSVG(svg));
+}
+
+/**********************************
+ * Tableau de bord (plusieurs graphiques)
+ **********************************/
+
+// Taille d'un panneau : colonnes occupées dans la grille et part de la taille de rendu (CONFIG.general)
+export type PanelSize = 'small' | 'wide' | 'large';
+const DASHBOARD_PANEL_SIZES: Record<PanelSize, { columns: number; width: number; height: number }> = {
+    small: { columns: 1, width: 0.48, height: 0.6 },
+    wide: { columns: 2, width: 1, height: 0.6 },
+    large: { columns: 2, width: 1, height: 1 }
+};
+
+// Panneau du tableau de bord : sa configuration (filtres locaux dans spec.filters) et ses éléments
+export interface DashboardPanel {
+    spec: ChartSpec;
+    size: PanelSize;
+    element: HTMLDivElement;
+    title: HTMLSpanElement;
+    infoDiv: HTMLDivElement;
+    chartDiv: HTMLDivElement;
+}
+
+// Crée un panneau dans la grille (à la fin, ou avant `before`) ; un clic sur le panneau le rend actif
+function createDashboardPanel(
+    grid: HTMLDivElement,
+    spec: ChartSpec,
+    size: PanelSize,
+    handlers: { onActivate: () => void; onDuplicate: () => void; onRemove: () => void; onResize: () => void },
+    before: Node | null = null
+): DashboardPanel {
+    const element = document.createElement('div');
+    element.className = 'dashboard-panel';
+    element.addEventListener('click', handlers.onActivate);
+
+    const header = document.createElement('div');
+    header.className = 'dashboard-panel-header';
+    const title = document.createElement('span');
+    const actions = document.createElement('div');
+    // Les actions du panneau ne le rendent pas actif
+    actions.addEventListener('click', event => event.stopPropagation());
+    header.append(title, actions);
+
+    const sizeSelect = document.createElement('select');
+    (Object.keys(DASHBOARD_PANEL_SIZES) as Array<PanelSize>).forEach(option => {
+        const opt = document.createElement('option');
+        opt.value = option;
+        opt.text = option;
+        sizeSelect.appendChild(opt);
+    });
+    sizeSelect.value = size;
+    actions.appendChild(sizeSelect);
+    createButton('Duplicate', actions, handlers.onDuplicate);
+    createButton('Remove', actions, handlers.onRemove);
+
+    const infoDiv = document.createElement('div');
+    infoDiv.className = 'chart-info';
+    const chartDiv = document.createElement('div');
+    element.append(header, infoDiv, chartDiv);
+    grid.insertBefore(element, before);
+
+    const panel: DashboardPanel = { spec, size, element, title, infoDiv, chartDiv };
+    const applySize = () => {
+        element.style.gridColumn = `span ${DASHBOARD_PANEL_SIZES[panel.size].columns}`;
+    };
+    applySize();
+    sizeSelect.addEventListener('change', () => {
+        panel.size = sizeSelect.value as PanelSize;
+        applySize();
+        handlers.onResize();
+    });
+    return panel;
+}
+
+// Crée la partie d'UI pour exporter le graphique (PNG, SVG) et ses données (CSV, JSON)
+function createExportUI(
+    container: HTMLDivElement,
+    renderChart: (scale: number) => SVGSVGElement | null, // Graphique redessiné en SVG à l'échelle demandée
+    getChartType: () => string,
+    getData: () => Readonly<Array<Object>>
+): void {
+    const scaleInput = createLabeledInput('exportScaleInput', 'Image scale:', container, 'number', '2', '1', '0.5');
+    showHTMLElements(scaleInput);
+
+    const btnsDiv = document.createElement('div');
+    btnsDiv.className = 'filter-buttons';
+    container.appendChild(btnsDiv);
+
+    const exportImage = (save: (svg: SVGSVGElement) => void) => {
+        const svg = renderChart(parseFloat(scaleInput.field.value) || 1);
+        if (!svg) {
+            alert('Nothing to export: this chart type is not rendered as an image.');
+            return;
+        }
+        save(svg);
+    };
+
+    createButton('PNG', btnsDiv, () => exportImage(svg => exportChartAsPNG(svg, exportFileName(getChartType(), 'png'))));
+
+    createButton('SVG', btnsDiv, () => exportImage(svg => {
+        downloadTextFile(exportFileName(getChartType(), 'svg'), chartToSVG(svg), 'image/svg+xml');
+    }));
+
+    createButton('CSV', btnsDiv, () => {
+        downloadTextFile(exportFileName(getChartType(), 'csv'), toCSV(exportRows(getData())), 'text/csv');
+    });
+
+    createButton('JSON', btnsDiv, () => {
+        downloadTextFile(exportFileName(getChartType(), 'json'), JSON.stringify(exportRows(getData()), null, 2), 'application/json');
+    });
+}
+
+export default class Dataviz {
+    static controlsCreated = false;
+
+    // Variables statiques pour stocker les données actuelles
+    static currentData: Readonly<Array<Object>> = [];
+    static currentName: string = "";
+    static currentFeatures: Readonly<Array<string>> = [];
+    static currentTypes: Readonly<Array<string>> = [];
+    static currentEnumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map();
+
+    static controlsSurface: any = null;
+    static chartSurface: any = null;
+    static chartDiv: HTMLDivElement | null = null;     // Graphique du panneau actif
+    static chartInfoDiv: HTMLDivElement | null = null; // Informations sur les données affichées (lignes concernées, etc.)
+
+    // Tableau de bord : grille de panneaux, dont un seul (actif) est édité par les contrôles
+    static dashboardGrid: HTMLDivElement | null = null;
+    static dashboardPanels: Array<DashboardPanel> = [];
+    static activePanel: DashboardPanel | null = null;
+    static globalFilters: Array<FilterExpression> = []; // Filtres partagés par tous les panneaux
+    static currentProcessedData: Readonly<Array<Object>> = []; // Données (filtrées, agrégées...) du dernier rendu
+
+    // Datasets nommés, sélectionnables dans les contrôles et comparables entre eux
+    static datasets = new Map<string, DatasetEntry>();
+    private static controls: ControlElements | null = null;
+
+    // Enregistre un dataset sans l'afficher (p.ex. résultats d'une table DMN avant modification)
+    static registerDataset(name: string, data: Readonly<Array<Object>>, schema?: DatasetSchema): void {
+        Dataviz.datasets.set(name, { ...(schema ?? inferSchema(data)), data });
+        if (Dataviz.controls) refreshDatasetOptions(Dataviz.controls.chart, Array.from(Dataviz.datasets.keys()), Dataviz.currentName);
+    }
+
+    // Flux de lignes : fenêtre glissante et rendus espacés pendant que l'hôte évalue des décisions
+    static streaming: StreamingOptions = { window: 0, throttle: 250 };
+    private static streamRenderTimer: ReturnType<typeof setTimeout> | null = null;
+    private static lastStreamRender = 0;
+    private static onDataChanged: (() => void) | null = null; // Mise à jour des filtres et des panneaux (définie par Setup)
+
+    // Traitements des panneaux hors du thread principal (recréé par Setup, avec l'indicateur de la surface Chart)
+    // Sans workerUrl (adresse de DatavizWorker.js), les traitements restent sur le thread principal, étape par étape
+    static workerUrl: string | URL | null = null;
+    static workerOptions: WorkerOptions = { type: 'module' };
+    private static pipeline: PipelineRunner | null = null;
+
+    // Dernier rendu du panneau actif, redessiné à la demande pour l'export
+    private static activeDraw: {
+        data: Readonly<Array<Object>>;
+        spec: ChartSpec;
+        config: VizConfig;
+        columns: Array<string>;
+        enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>;
+        axisLabels: Record<string, string>;
+        chart: ChartComputations;
+    } | null = null;
+
+    // Redessine le graphique du panneau actif hors de la page, à l'échelle demandée et avec les rendus SVG
+    // (comme pour la sélection) au lieu des canvas de tfvis ; null pour les vues sans image (tableaux, résumé)
+    private static renderActiveChartSVG(scale: number): SVGSVGElement | null {
+        const draw = Dataviz.activeDraw;
+        if (!draw) return null;
+        const config: VizConfig = JSON.parse(JSON.stringify(draw.config));
+        config.general.width *= scale;
+        config.general.height *= scale;
+        config.general.fontSize *= scale;
+        config.general.selectable = true;
+
+        const area = document.createElement('div');
+        Dataviz._Draw(area, draw.data, draw.spec, config, draw.columns, draw.enumerations, draw.axisLabels, draw.chart);
+        return area.querySelector('svg');
+    }
+
+    private static streamRows: Array<Object> | null = null; // Lignes du dataset courant modifiées en place par push
+
+    // Ajoute des lignes au dataset courant (même schéma), sans recopier celles déjà reçues
+    static push(rows: ReadonlyArray<Object>): void {
+        // Les lignes données par l'hôte ne sont pas modifiées : copiées au premier ajout
+        if (Dataviz.currentData !== Dataviz.streamRows) Dataviz.setCurrentRows(Dataviz.streamRows = Dataviz.currentData.slice());
+        const target = Dataviz.streamRows!;
+        const window = Dataviz.streaming.window;
+        const dropCount = window > 0 ? Math.max(0, target.length + rows.length - window) : 0;
+        appendRows(target, rows, dropCount);
+        comparisonCache = new WeakMap(); // Comparaisons construites sur les lignes d'avant l'ajout
+        Dataviz.pipeline?.append(target, rows, dropCount);
+        Dataviz.scheduleStreamRender();
+    }
+
+    // Remplace les lignes du dataset courant
+    static replace(rows: ReadonlyArray<Object>): void {
+        Dataviz.setCurrentRows(applyRollingWindow(rows, Dataviz.streaming.window));
+        Dataviz.scheduleStreamRender();
+    }
+
+    private static setCurrentRows(rows: ReadonlyArray<Object>): void {
+        Dataviz.currentData = rows;
+        const entry = Dataviz.datasets.get(Dataviz.currentName);
+        if (entry) entry.data = rows;
+    }
+
+    // Le tableau de bord est redessiné au plus une fois par intervalle
+    private static scheduleStreamRender(): void {
+        if (Dataviz.streamRenderTimer !== null) return; // Le rendu prévu prendra les dernières lignes
+        const delay = Math.max(0, Dataviz.lastStreamRender + Dataviz.streaming.throttle - Date.now());
+        Dataviz.streamRenderTimer = setTimeout(() => {
+            Dataviz.streamRenderTimer = null;
+            Dataviz.lastStreamRender = Date.now();
+            Dataviz.onDataChanged?.();
+        }, delay);
+    }
+
+    // Vide le tableau de bord et retourne la configuration de ses panneaux (celle du panneau actif est relue dans les contrôles)
+    private static takeDashboardPanels(): Array<{ spec: ChartSpec; size: PanelSize; active: boolean }> {
+        const active = Dataviz.activePanel;
+        if (active) active.spec = readChartSpecFromControls(active.spec.filters ?? []);
+        const saved = Dataviz.dashboardPanels.map(panel => ({ spec: panel.spec, size: panel.size, active: panel === active }));
+        Dataviz.dashboardPanels = [];
+        Dataviz.activePanel = null;
+        Dataviz.dashboardGrid = null;
+        return saved;
+    }
+
+    static Setup(
+        dataviz: {
+            dataviz_area: HTMLDivElement,
             dataviz_handler: (stop: boolean) => void
         },
         data: Readonly<Array<Object>>,
@@ -910,6 +2614,9 @@ export default class Dataviz {
         visor.open();
         if (!visor.isFullscreen()) visor.toggleFullScreen();
 
+        // Le dataset affiché devient sélectionnable et comparable
+        Dataviz.datasets.set(name, { data, features, types, enumerations });
+
         // Identification des colonnes numériques
         const numericFeatures = identifyNumericColumns(Dataviz.currentData, Dataviz.currentFeatures, Dataviz.currentTypes);
 
@@ -919,394 +2626,1581 @@ export default class Dataviz {
             return;
         }
 
+        // Panneaux du tableau de bord précédent, recréés pour ce dataset
+        const savedPanels = Dataviz.takeDashboardPanels();
+        // Couleurs attribuées aux séries des rendus précédents ; chaque panneau retrouve les siennes dans sa spec
+        CONFIG.general.seriesColorMap = {};
+
         // Variables pour les contrôles
-        let filters: Filter[] = []
-        let controlsSurface: any;
-
-        // 2. Création des contrôles si non encore faits
-        if (!Dataviz.controlsCreated) {
-            controlsSurface = visor.surface({ name: 'Controls', tab: 'Visualizations', styles: { width: CONFIG.general.width } });
-
-            // Création des éléments de contrôle
-            const _features = JSON.parse(JSON.stringify(Dataviz.currentFeatures)); // Clone original
-            const controls = createControlDiv(numericFeatures, _features, controlsSurface);
-
-            // Initialisation des sections et des contrôles
-            const {
-                sections: { chartSection, axesSection, dataProcessingSection, heatmapSection, filtersSection },
-                chart: { chartTypeDropdown, fontSizeInput },
-                axes: { xAxisDatasetDropdown, yAxisDatasetDropdown },
-                dataProcessing: { normalizeCheckbox, removeOutliersCheckbox, outlierThresholdInput, applyAggregationCheckbox, aggregationDropdown },
-                heatmap: { rowDropdown, colDropdown, valDropdown, colorMapDropdown },
-                histogram: { maxBinsInput, statsCheckbox, histColorInput },
-                bar: { barColorInput },
-                lineScatter: { lsColorInput },
-                tableSorting: { sortColumnDropdown, sortOrderDropdown }
-            } = controls;
-
-            // Affichage initial des sections
-            showHTMLElements(chartSection, chartTypeDropdown);
-
-            // Gestion du changement de type de graphique
-            chartTypeDropdown.field.addEventListener('change', () => {
-                const ctype = chartTypeDropdown.field.value;
-
-                if (ctype) showHTMLElements(fontSizeInput);
-
-                // Réinitialisation des affichages
-                hideHTMLElements(
-                    axesSection, dataProcessingSection, heatmapSection, filtersSection,
-                    maxBinsInput, statsCheckbox, histColorInput, barColorInput,
-                    lsColorInput, colorMapDropdown, rowDropdown, colDropdown,
-                    valDropdown, xAxisDatasetDropdown, yAxisDatasetDropdown,
-                    normalizeCheckbox, removeOutliersCheckbox, outlierThresholdInput,
-                    applyAggregationCheckbox, aggregationDropdown, sortColumnDropdown, sortOrderDropdown
-                );
-
-                // Affichage en fonction du type de graphique
-                switch (ctype) {
-                    case 'Heatmap':
-                        showHTMLElements(heatmapSection, rowDropdown, colDropdown, valDropdown, colorMapDropdown, filtersSection);
-                        break;
-                    case 'Histogram':
-                        showHTMLElements(axesSection, filtersSection, maxBinsInput, statsCheckbox, histColorInput, xAxisDatasetDropdown, yAxisDatasetDropdown);
-                        break;
-                    case 'Line Chart':
-                    case 'Bar Chart':
-                    case 'Scatter Plot':
-                        showHTMLElements(axesSection, filtersSection, xAxisDatasetDropdown, yAxisDatasetDropdown);
-                        if (ctype === 'Line Chart' || ctype === 'Bar Chart')
-                            showHTMLElements(dataProcessingSection, normalizeCheckbox, removeOutliersCheckbox, outlierThresholdInput, applyAggregationCheckbox, aggregationDropdown);
-                        if (ctype === 'Bar Chart')
-                            showHTMLElements(barColorInput);
-                        if (ctype === 'Line Chart' || ctype === 'Scatter Plot')
-                            showHTMLElements(lsColorInput);
-                        break;
-                    case 'Table':
-                        showHTMLElements(sortColumnDropdown, sortOrderDropdown, filtersSection);
-                        break;
-                    default:
-                        showHTMLElements(chartSection, chartTypeDropdown, fontSizeInput);
-                        break;
-                }
+        let filters: FilterExpression[] = [] // Filtres locaux du panneau actif
+        let selectCorrelationPair: ((xFeature: string, yFeature: string) => void) | null = null;
+        let applySpec: ((spec: ChartSpec) => void) | null = null;
+        let applySelection: ((selection: Array<FilterExpression>) => void) | null = null;
+
+        // 2. Création des contrôles, reconstruits pour les features du dataset courant
+        const controlsSurface = visor.surface({ name: 'Controls', tab: 'Visualizations', styles: { width: CONFIG.general.width } });
+        controlsSurface.drawArea.innerHTML = ""; // Contrôles du dataset précédent
+        Dataviz.controlsSurface = controlsSurface;
+
+        // Création des éléments de contrôle
+        const _features = JSON.parse(JSON.stringify(Dataviz.currentFeatures)); // Clone original
+        const controls = createControlDiv(numericFeatures, _features, controlsSurface, Array.from(Dataviz.datasets.keys()), Dataviz.currentName);
+
+        // Initialisation des sections et des contrôles
+        const {
+            sections: { chartSection, axesSection, dataProcessingSection, heatmapSection, filtersSection, presetsSection, exportSection, groupBySection },
+            chart: { datasetDropdown, compareDatasetDropdown, compareModeDropdown, chartTypeDropdown, fontSizeInput, selectionCheckbox },
+            axes: { xAxisDatasetDropdown, yAxisDatasetDropdown },
+            dataProcessing: { normalizeCheckbox, scalingMethodDropdown, columnScalingContainer, removeOutliersCheckbox, outlierThresholdInput, outlierMethodDropdown, outlierScopeDropdown, outlierModeDropdown, applyAggregationCheckbox, aggregationDropdown, missingPolicyDropdown, missingFillInput, samplingMethodDropdown, maxPointsInput },
+            heatmap: { rowDropdown, colDropdown, valDropdown, colorMapDropdown, heatmapAggregationDropdown, heatmapPercentileInput, rowBinsInput, colBinsInput, colorCenterInput, annotateCheckbox },
+            pivot: { pivotAggregationDropdown, pivotPercentileInput, pivotPercentDropdown, pivotTotalsCheckbox, pivotWithHeatmapCheckbox },
+            histogram: { maxBinsInput, statsCheckbox, histColorInput },
+            bar: { barColorInput, barModeDropdown, barOrientationDropdown, donutHoleInput },
+            correlation: { correlationMethodDropdown },
+            lineScatter: { additionalYSelect, groupByDropdown, seriesPalette },
+            trend: { trendMethodDropdown, trendDegreeInput, trendSpanInput, trendPerGroupCheckbox },
+            tableSorting: { sortColumnDropdown, sortOrderDropdown },
+            tableFormat: { tableFormatColumnDropdown, tableDecimalsInput, tableNumberStyleDropdown, tableConditionalDropdown, tableScaleColorMapDropdown, tableThresholdInput },
+            filters: { filterScopeDropdown }
+        } = controls;
+
+        // Affichage initial des sections
+        showHTMLElements(chartSection, chartTypeDropdown, presetsSection);
+        showDatasetControls(controls.chart, Dataviz.datasets.size);
+
+        // Contrôles de rendu de la heatmap (le centre n'a de sens que pour une palette divergente)
+        const showHeatmapRenderingControls = () => {
+            showHTMLElements(colorMapDropdown, annotateCheckbox);
+            if (HEATMAP_COLOR_MAPS[colorMapDropdown.field.value || CONFIG.heatmap.colorMap]?.diverging) {
+                showHTMLElements(colorCenterInput);
+            } else {
+                hideHTMLElements(colorCenterInput);
+            }
+        };
 
-                // Mise à jour du graphique
-                updateChart();
-            });
+        // Un découpage des barres demande la feature de regroupement et remplace la couleur unique par une palette
+        const showBarControls = () => {
+            const split = !!barModeDropdown.field.value && barModeDropdown.field.value !== 'simple';
+            showHTMLElements(barModeDropdown, barOrientationDropdown);
+            if (split) {
+                showHTMLElements(groupByDropdown, seriesPalette);
+                hideHTMLElements(barColorInput);
+            } else {
+                showHTMLElements(barColorInput);
+                hideHTMLElements(groupByDropdown, seriesPalette);
+            }
+        };
 
-            // Ajout des listeners aux contrôles
-            fontSizeInput.field.addEventListener('change', () => {
-                CONFIG.general.fontSize = parseFloat(fontSizeInput.field.value);
-                updateChart();
-            });
+        // Le nombre de points n'a de sens qu'avec une méthode d'échantillonnage
+        const showSamplingControls = () => {
+            const method = samplingMethodDropdown.field.value;
+            if (method && method !== 'none') {
+                showHTMLElements(maxPointsInput);
+            } else {
+                hideHTMLElements(maxPointsInput);
+            }
+        };
 
-            // xTypeDropdown.field.addEventListener('change', () => {
-            //     CONFIG.general.xType = xTypeDropdown.field.value.toLowerCase();
-            //     updateChart();
-            // });
-            //
-            // yTypeDropdown.field.addEventListener('change', () => {
-            //     CONFIG.general.xType = yTypeDropdown.field.value.toLowerCase();
-            //     updateChart();
-            // });
-
-            barColorInput.field.addEventListener('change', () => {
-                CONFIG.general.color = barColorInput.field.value;
-                updateChart();
-            });
+        // Paramètres propres à la méthode de tendance choisie
+        const showTrendControls = () => {
+            const method = trendMethodDropdown.field.value;
+            showHTMLElements(trendMethodDropdown);
+            hideHTMLElements(trendDegreeInput, trendSpanInput, trendPerGroupCheckbox);
+            if (method === 'polynomial') showHTMLElements(trendDegreeInput);
+            if (method === 'loess') showHTMLElements(trendSpanInput);
+            if (method && method !== 'none') showHTMLElements(trendPerGroupCheckbox);
+        };
 
-            colorMapDropdown.field.addEventListener('change', () => {
-                CONFIG.heatmap.colorMap = colorMapDropdown.field.value;
-                updateChart();
-            });
+        // Réglages du format de colonne du tableau : visibles une fois la colonne choisie, selon la mise en forme conditionnelle
+        const showTableFormatControls = () => {
+            showHTMLElements(tableFormatColumnDropdown);
+            hideHTMLElements(tableDecimalsInput, tableNumberStyleDropdown, tableConditionalDropdown, tableScaleColorMapDropdown, tableThresholdInput);
+            if (!tableFormatColumnDropdown.field.value) return;
+            showHTMLElements(tableDecimalsInput, tableNumberStyleDropdown, tableConditionalDropdown);
+            if (tableConditionalDropdown.field.value === 'scale') showHTMLElements(tableScaleColorMapDropdown);
+            if (tableConditionalDropdown.field.value === 'threshold') showHTMLElements(tableThresholdInput);
+        };
 
-            maxBinsInput.field.addEventListener('change', () => {
-                CONFIG.histogram.maxBins = parseInt(maxBinsInput.field.value);
-                updateChart();
-            });
+        // Gestion du changement de type de graphique
+        chartTypeDropdown.field.addEventListener('change', () => {
+            const ctype = chartTypeDropdown.field.value;
 
-            statsCheckbox.field.addEventListener('change', () => {
-                CONFIG.histogram.stats = statsCheckbox.field.checked ? '' : false;
-                updateChart();
-            });
+            if (ctype) showHTMLElements(fontSizeInput, exportSection, groupBySection);
 
-            histColorInput.field.addEventListener('change', () => {
-                CONFIG.general.color = histColorInput.field.value;
-                updateChart();
-            });
+            // Réinitialisation des affichages
+            hideHTMLElements(
+                axesSection, dataProcessingSection, heatmapSection, filtersSection,
+                maxBinsInput, statsCheckbox, histColorInput, barColorInput,
+                additionalYSelect, groupByDropdown, seriesPalette, colorMapDropdown, rowDropdown, colDropdown,
+                valDropdown, xAxisDatasetDropdown, yAxisDatasetDropdown,
+                normalizeCheckbox, removeOutliersCheckbox, outlierThresholdInput,
+                applyAggregationCheckbox, aggregationDropdown, sortColumnDropdown, sortOrderDropdown,
+                missingPolicyDropdown, missingFillInput, samplingMethodDropdown, maxPointsInput, scalingMethodDropdown, columnScalingContainer,
+                outlierMethodDropdown, outlierScopeDropdown, outlierModeDropdown,
+                pivotAggregationDropdown, pivotPercentileInput, pivotPercentDropdown, pivotTotalsCheckbox, pivotWithHeatmapCheckbox,
+                heatmapAggregationDropdown, heatmapPercentileInput, rowBinsInput, colBinsInput, colorCenterInput, annotateCheckbox,
+                correlationMethodDropdown, trendMethodDropdown, trendDegreeInput, trendSpanInput, trendPerGroupCheckbox,
+                barModeDropdown, barOrientationDropdown, donutHoleInput,
+                tableFormatColumnDropdown, tableDecimalsInput, tableNumberStyleDropdown, tableConditionalDropdown,
+                tableScaleColorMapDropdown, tableThresholdInput, selectionCheckbox
+            );
 
-            lsColorInput.field.addEventListener('change', () => {
-                CONFIG.general.seriesColor[0] = lsColorInput.field.value;
-                updateChart();
-            });
+            // Affichage en fonction du type de graphique
+            switch (ctype) {
+                case 'Heatmap':
+                    showHTMLElements(heatmapSection, rowDropdown, colDropdown, valDropdown, filtersSection,
+                        heatmapAggregationDropdown, rowBinsInput, colBinsInput);
+                    showHeatmapRenderingControls();
+                    if (heatmapAggregationDropdown.field.value === 'percentile') showHTMLElements(heatmapPercentileInput);
+                    break;
+                case 'Pivot Table':
+                    showHTMLElements(heatmapSection, rowDropdown, colDropdown, valDropdown, filtersSection,
+                        pivotAggregationDropdown, pivotPercentDropdown, pivotTotalsCheckbox, pivotWithHeatmapCheckbox, rowBinsInput, colBinsInput);
+                    if (pivotAggregationDropdown.field.value === 'percentile') showHTMLElements(pivotPercentileInput);
+                    if (pivotWithHeatmapCheckbox.field.checked) showHeatmapRenderingControls();
+                    break;
+                case 'Histogram':
+                    showHTMLElements(axesSection, filtersSection, maxBinsInput, statsCheckbox, histColorInput, xAxisDatasetDropdown, yAxisDatasetDropdown);
+                    showHTMLElements(dataProcessingSection, normalizeCheckbox, scalingMethodDropdown, columnScalingContainer);
+                    break;
+                case 'Line Chart':
+                case 'Bar Chart':
+                case 'Scatter Plot':
+                    showHTMLElements(axesSection, filtersSection, xAxisDatasetDropdown, yAxisDatasetDropdown);
+                    showHTMLElements(dataProcessingSection, normalizeCheckbox, scalingMethodDropdown, columnScalingContainer);
+                    if (ctype === 'Line Chart' || ctype === 'Bar Chart')
+                        showHTMLElements(dataProcessingSection, normalizeCheckbox, applyAggregationCheckbox, aggregationDropdown);
+                    showHTMLElements(removeOutliersCheckbox, outlierMethodDropdown, outlierThresholdInput, outlierScopeDropdown, outlierModeDropdown);
+                    if (ctype === 'Bar Chart')
+                        showBarControls();
+                    if (ctype === 'Line Chart' || ctype === 'Scatter Plot') {
+                        showHTMLElements(additionalYSelect, groupByDropdown, seriesPalette, samplingMethodDropdown);
+                        showSamplingControls();
+                    }
+                    if (ctype === 'Scatter Plot')
+                        showTrendControls();
+                    break;
+                case 'Donut Chart':
+                    // Part de chaque catégorie de la feature de regroupement (somme de Y, ou nombre de lignes)
+                    showHTMLElements(axesSection, filtersSection, yAxisDatasetDropdown, groupByDropdown, donutHoleInput, seriesPalette);
+                    showHTMLElements(dataProcessingSection, removeOutliersCheckbox, outlierMethodDropdown, outlierThresholdInput, outlierScopeDropdown, outlierModeDropdown);
+                    break;
+                case 'Box Plot':
+                case 'Violin Plot':
+                    // Feature numérique en Y, répartie selon la feature de regroupement
+                    showHTMLElements(axesSection, filtersSection, yAxisDatasetDropdown, groupByDropdown, seriesPalette);
+                    showHTMLElements(dataProcessingSection, normalizeCheckbox, scalingMethodDropdown, columnScalingContainer);
+                    showHTMLElements(removeOutliersCheckbox, outlierMethodDropdown, outlierThresholdInput, outlierScopeDropdown, outlierModeDropdown);
+                    break;
+                case 'Correlation Matrix':
+                    showHTMLElements(correlationMethodDropdown, filtersSection);
+                    showHTMLElements(dataProcessingSection, removeOutliersCheckbox, outlierMethodDropdown, outlierThresholdInput, outlierScopeDropdown, outlierModeDropdown);
+                    break;
+                case 'Summary':
+                    // Statistiques sur les données filtrées et débarrassées des outliers, avant toute mise à l'échelle
+                    showHTMLElements(filtersSection);
+                    showHTMLElements(dataProcessingSection, removeOutliersCheckbox, outlierMethodDropdown, outlierThresholdInput, outlierScopeDropdown, outlierModeDropdown);
+                    break;
+                case 'Table':
+                    showHTMLElements(sortColumnDropdown, sortOrderDropdown, filtersSection);
+                    showTableFormatControls();
+                    showHTMLElements(dataProcessingSection, removeOutliersCheckbox, outlierMethodDropdown, outlierThresholdInput, outlierScopeDropdown, outlierModeDropdown);
+                    break;
+                default:
+                    showHTMLElements(chartSection, chartTypeDropdown, fontSizeInput);
+                    break;
+            }
 
-            // Gestion des mises à jour des axes et des données
-            xAxisDatasetDropdown.field.addEventListener('change', updateChart);
-            yAxisDatasetDropdown.field.addEventListener('change', updateChart);
-            normalizeCheckbox.field.addEventListener('change', updateChart);
-            applyAggregationCheckbox.field.addEventListener('change', updateChart);
-            removeOutliersCheckbox.field.addEventListener('change', updateChart);
-            outlierThresholdInput.field.addEventListener('input', updateChart);
-            aggregationDropdown.field.addEventListener('change', updateChart);
-            rowDropdown.field.addEventListener('change', updateChart);
-            colDropdown.field.addEventListener('change', updateChart);
-            valDropdown.field.addEventListener('change', updateChart);
-            sortColumnDropdown.field.addEventListener('change', updateChart);
-            sortOrderDropdown.field.addEventListener('change', updateChart);
-
-            createMultiFilterUI(data, _features, numericFeatures, controls.sections.filtersSection, onFiltersChanged);
-
-            function onFiltersChanged(newFilters: Filter[]) {
-                filters = newFilters;
-                updateChart();
+            // Sélection dans le graphique (barres, cellules, intervalles, rectangle)
+            if (['Line Chart', 'Bar Chart', 'Scatter Plot', 'Histogram', 'Heatmap'].includes(ctype)) showHTMLElements(selectionCheckbox);
+
+            // La politique de valeurs manquantes s'applique à tous les types de graphiques
+            if (ctype) {
+                showHTMLElements(dataProcessingSection, missingPolicyDropdown);
+                if (missingPolicyDropdown.field.value === 'constant') showHTMLElements(missingFillInput);
+            }
+
+            // Mise à jour du graphique
+            updateChart();
+        });
+
+        // Changement de dataset : contrôles et tableau de bord sont reconstruits pour ses features
+        datasetDropdown.field.addEventListener('change', () => {
+            const entry = Dataviz.datasets.get(datasetDropdown.field.value);
+            if (!entry) return;
+            Dataviz.Setup(dataviz, entry.data, datasetDropdown.field.value, entry.features, entry.types, entry.enumerations ?? new Map());
+        });
+
+        compareDatasetDropdown.field.addEventListener('change', () => {
+            showDatasetControls(controls.chart, Dataviz.datasets.size);
+            updateChart();
+        });
+        compareModeDropdown.field.addEventListener('change', updateChart);
+
+        // Ajout des listeners aux contrôles
+        fontSizeInput.field.addEventListener('change', () => {
+            CONFIG.general.fontSize = parseFloat(fontSizeInput.field.value);
+            updateChart();
+        });
+
+        selectionCheckbox.field.addEventListener('change', () => {
+            CONFIG.general.selectable = selectionCheckbox.field.checked;
+            updateChart();
+        });
+
+        // xTypeDropdown.field.addEventListener('change', () => {
+        //     CONFIG.general.xType = xTypeDropdown.field.value.toLowerCase();
+        //     updateChart();
+        // });
+        //
+        // yTypeDropdown.field.addEventListener('change', () => {
+        //     CONFIG.general.xType = yTypeDropdown.field.value.toLowerCase();
+        //     updateChart();
+        // });
+
+        barColorInput.field.addEventListener('change', () => {
+            CONFIG.general.color = barColorInput.field.value;
+            updateChart();
+        });
+
+        barModeDropdown.field.addEventListener('change', () => {
+            showBarControls();
+            updateChart();
+        });
+        barOrientationDropdown.field.addEventListener('change', updateChart);
+        donutHoleInput.field.addEventListener('change', updateChart);
+
+        colorMapDropdown.field.addEventListener('change', () => {
+            CONFIG.heatmap.colorMap = colorMapDropdown.field.value;
+            showHeatmapRenderingControls();
+            updateChart();
+        });
+
+        colorCenterInput.field.addEventListener('change', () => {
+            CONFIG.heatmap.center = parseFloat(colorCenterInput.field.value) || 0;
+            updateChart();
+        });
+
+        annotateCheckbox.field.addEventListener('change', () => {
+            CONFIG.heatmap.annotate = annotateCheckbox.field.checked;
+            updateChart();
+        });
+
+        heatmapAggregationDropdown.field.addEventListener('change', () => {
+            if (heatmapAggregationDropdown.field.value === 'percentile') {
+                showHTMLElements(heatmapPercentileInput);
+            } else {
+                hideHTMLElements(heatmapPercentileInput);
+            }
+            updateChart();
+        });
+        heatmapPercentileInput.field.addEventListener('change', updateChart);
+        rowBinsInput.field.addEventListener('change', updateChart);
+        colBinsInput.field.addEventListener('change', updateChart);
+
+        correlationMethodDropdown.field.addEventListener('change', updateChart);
+
+        // Clic sur une cellule de la matrice de corrélation : nuage de points des deux features
+        selectCorrelationPair = (xFeature: string, yFeature: string) => {
+            xAxisDatasetDropdown.field.value = xFeature;
+            yAxisDatasetDropdown.field.value = yFeature;
+            chartTypeDropdown.field.value = 'Scatter Plot';
+            chartTypeDropdown.field.dispatchEvent(new Event('change'));
+        };
+
+        maxBinsInput.field.addEventListener('change', () => {
+            CONFIG.histogram.maxBins = parseInt(maxBinsInput.field.value);
+            updateChart();
+        });
+
+        statsCheckbox.field.addEventListener('change', () => {
+            CONFIG.histogram.stats = statsCheckbox.field.checked ? '' : false;
+            updateChart();
+        });
+
+        histColorInput.field.addEventListener('change', () => {
+            CONFIG.general.color = histColorInput.field.value;
+            updateChart();
+        });
+
+        // Gestion des mises à jour des axes et des données
+        xAxisDatasetDropdown.field.addEventListener('change', updateChart);
+        yAxisDatasetDropdown.field.addEventListener('change', updateChart);
+        additionalYSelect.field.addEventListener('change', updateChart);
+        groupByDropdown.field.addEventListener('change', updateChart);
+        trendMethodDropdown.field.addEventListener('change', () => {
+            showTrendControls();
+            updateChart();
+        });
+        trendDegreeInput.field.addEventListener('change', updateChart);
+        trendSpanInput.field.addEventListener('change', updateChart);
+        trendPerGroupCheckbox.field.addEventListener('change', updateChart);
+        normalizeCheckbox.field.addEventListener('change', updateChart);
+        scalingMethodDropdown.field.addEventListener('change', updateChart);
+        columnScalingContainer.querySelectorAll('select').forEach(select => select.addEventListener('change', updateChart));
+        applyAggregationCheckbox.field.addEventListener('change', updateChart);
+        removeOutliersCheckbox.field.addEventListener('change', updateChart);
+        outlierThresholdInput.field.addEventListener('input', updateChart);
+        outlierMethodDropdown.field.addEventListener('change', () => {
+            // Chaque méthode a son propre seuil usuel
+            const method = outlierMethodDropdown.field.value as OutlierMethod;
+            outlierThresholdInput.field.value = String(OUTLIER_DETECTORS[method].defaultThreshold);
+            updateChart();
+        });
+        outlierScopeDropdown.field.addEventListener('change', updateChart);
+        outlierModeDropdown.field.addEventListener('change', updateChart);
+        aggregationDropdown.field.addEventListener('change', updateChart);
+        missingPolicyDropdown.field.addEventListener('change', () => {
+            if (missingPolicyDropdown.field.value === 'constant') {
+                showHTMLElements(missingFillInput);
+            } else {
+                hideHTMLElements(missingFillInput);
+            }
+            updateChart();
+        });
+        missingFillInput.field.addEventListener('change', updateChart);
+        samplingMethodDropdown.field.addEventListener('change', () => {
+            showSamplingControls();
+            updateChart();
+        });
+        maxPointsInput.field.addEventListener('change', updateChart);
+        rowDropdown.field.addEventListener('change', updateChart);
+        colDropdown.field.addEventListener('change', updateChart);
+        valDropdown.field.addEventListener('change', updateChart);
+        pivotAggregationDropdown.field.addEventListener('change', () => {
+            if (pivotAggregationDropdown.field.value === 'percentile') {
+                showHTMLElements(pivotPercentileInput);
+            } else {
+                hideHTMLElements(pivotPercentileInput);
             }
+            updateChart();
+        });
+        pivotPercentileInput.field.addEventListener('change', updateChart);
+        pivotPercentDropdown.field.addEventListener('change', updateChart);
+        pivotTotalsCheckbox.field.addEventListener('change', updateChart);
+        pivotWithHeatmapCheckbox.field.addEventListener('change', () => {
+            if (pivotWithHeatmapCheckbox.field.checked) {
+                showHeatmapRenderingControls();
+            } else {
+                hideHTMLElements(colorMapDropdown, colorCenterInput, annotateCheckbox);
+            }
+            updateChart();
+        });
+        // Le tri des contrôles remplace le tri multi-colonnes choisi sur les en-têtes du tableau
+        [sortColumnDropdown, sortOrderDropdown].forEach(({ field }) => field.addEventListener('change', () => {
+            CONFIG.table.sortKeys = [];
+            updateChart();
+        }));
+
+        // Format de colonne : la colonne choisie recharge ses réglages, chaque réglage est enregistré puis le tableau redessiné
+        const loadTableFormat = () => {
+            const format = CONFIG.table.formats[tableFormatColumnDropdown.field.value] ?? {};
+            tableDecimalsInput.field.value = format.decimals === undefined ? '' : String(format.decimals);
+            tableNumberStyleDropdown.field.value = format.style ?? '';
+            tableConditionalDropdown.field.value = format.conditional && format.conditional !== 'none' ? format.conditional : '';
+            tableScaleColorMapDropdown.field.value = format.colorMap ?? '';
+            tableThresholdInput.field.value = String(format.threshold ?? 0);
+            showTableFormatControls();
+        };
+        const saveTableFormat = () => {
+            const column = tableFormatColumnDropdown.field.value;
+            if (!column) return;
+            const decimals = parseInt(tableDecimalsInput.field.value);
+            const threshold = parseFloat(tableThresholdInput.field.value);
+            CONFIG.table.formats[column] = {
+                decimals: isNaN(decimals) ? undefined : Math.max(0, Math.min(20, decimals)),
+                style: (tableNumberStyleDropdown.field.value || 'plain') as NumberStyle,
+                conditional: (tableConditionalDropdown.field.value || 'none') as ColumnFormat['conditional'],
+                colorMap: tableScaleColorMapDropdown.field.value || undefined,
+                threshold: isNaN(threshold) ? undefined : threshold
+            };
+            showTableFormatControls();
+            updateChart();
+        };
+        tableFormatColumnDropdown.field.addEventListener('change', loadTableFormat);
+        [tableDecimalsInput, tableNumberStyleDropdown, tableConditionalDropdown, tableScaleColorMapDropdown, tableThresholdInput]
+            .forEach(({ field }) => field.addEventListener('change', saveTableFormat));
 
-            Dataviz.controlsCreated = true; // Empêche la recréation des contrôles
+        const filterUI = createMultiFilterUI(data, _features, numericFeatures, controls.sections.filtersSection, onFiltersChanged);
+        const localFilterScope = () => filterScopeDropdown.field.value === 'panel';
 
+        // Lignes reçues en continu : valeurs proposées par les filtres et panneaux mis à jour
+        Dataviz.onDataChanged = () => {
+            filterUI.setData(Dataviz.currentData);
+            renderDashboard();
+        };
+
+        // Les filtres globaux redessinent tous les panneaux, les filtres locaux seulement le panneau actif
+        function onFiltersChanged(newFilters: FilterExpression[]) {
+            if (localFilterScope()) {
+                filters = newFilters;
+                updateChart();
+            } else {
+                Dataviz.globalFilters = newFilters;
+                renderDashboard();
+            }
         }
+        filterScopeDropdown.field.addEventListener('change', () => {
+            filterUI.setFilters(localFilterScope() ? filters : Dataviz.globalFilters, false);
+        });
 
-        // Gestion du graphique
-        let chartDiv: HTMLDivElement;
-        if (!Dataviz.chartDiv) {
-            chartDiv = document.createElement('div');
-            chartDiv.style.width = `${CONFIG.general.width}`;
-            chartDiv.style.height = `${CONFIG.general.height}`;
-            const chartSurface = visor.surface({ name: 'Chart', tab: 'Visualizations', styles: { width: CONFIG.general.width, height: CONFIG.general.height } });
-            chartSurface.drawArea.appendChild(chartDiv);
-
-            Dataviz.chartDiv = chartDiv;
-            Dataviz.chartSurface = chartSurface;
-        } else {
-            Dataviz.chartDiv.innerHTML = ""; // Nettoyage avant le prochain rendu
-        }
+        // Sélection dans un graphique : ajoutée aux filtres globaux, où elle peut être retirée, puis tous les panneaux sont redessinés
+        // (les colonnes produites par un group-by ne sont pas filtrables : elles n'existent pas avant l'agrégation)
+        applySelection = (selection: Array<FilterExpression>) => {
+            const applicable = selection.filter(f => collectFilterColumns(f).every(c => Dataviz.currentFeatures.includes(c)));
+            if (applicable.length === 0) return;
+            filterScopeDropdown.field.value = '';
+            filterUI.setFilters([...Dataviz.globalFilters, ...applicable]);
+        };
 
-        updateChart();
+        // Les colonnes produites par le group-by deviennent sélectionnables sur les axes
+        const refreshGroupByColumns = () => refreshGroupByOptions([
+            xAxisDatasetDropdown.field, yAxisDatasetDropdown.field, additionalYSelect.field,
+            rowDropdown.field, colDropdown.field, valDropdown.field, sortColumnDropdown.field, tableFormatColumnDropdown.field
+        ], readGroupByFromControls());
 
-        function updateChart(): void {
-            const chartType = (document.getElementById('chartTypeDropdown') as HTMLSelectElement).value;
+        const groupByUI = createGroupByUI(groupBySection, _features, () => {
+            refreshGroupByColumns();
+            updateChart();
+        });
 
-            const xFeature = (document.getElementById('xAxisDatasetDropdown') as HTMLSelectElement).value;
-            const yFeature = (document.getElementById('yAxisDatasetDropdown') as HTMLSelectElement).value;
+        // Restaure une configuration (preset, fichier importé, lien partagé ou panneau) dans les contrôles
+        // Ses filtres deviennent les filtres locaux du panneau actif
+        applySpec = (spec: ChartSpec) => {
+            filters = spec.filters ?? [];
+            filterUI.setFilters(localFilterScope() ? filters : Dataviz.globalFilters, false);
+            groupByUI.setGroupBy(spec.groupBy);
+            refreshGroupByColumns();
+            applyChartSpecToControls(spec, controls);
+            showDatasetControls(controls.chart, Dataviz.datasets.size);
+            // Le listener du type de graphique affiche les bonnes sections puis redessine
+            chartTypeDropdown.field.dispatchEvent(new Event('change'));
+        };
 
-            const normalize = (document.getElementById('normalize') as HTMLInputElement).checked;
-            const removeOutliersChecked = (document.getElementById('removeOutliers') as HTMLInputElement).checked;
-            const threshold = parseFloat((document.getElementById('outlierThresholdInput') as HTMLInputElement).value) || 1.5;
-            const applyAggregation = (document.getElementById('applyAggregation') as HTMLInputElement).checked;
-            const aggregationMethod = (document.getElementById('aggregationDropdown') as HTMLSelectElement).value as 'sum' | 'average' | 'median' | 'min' | 'max';
+        // Un preset enregistre les filtres effectivement appliqués (globaux et locaux)
+        createPresetUI(presetsSection, () => readChartSpecFromControls([...Dataviz.globalFilters, ...filters]), applySpec);
+
+        createExportUI(
+            exportSection,
+            scale => Dataviz.renderActiveChartSVG(scale),
+            () => chartTypeDropdown.field.value,
+            () => Dataviz.currentProcessedData
+        );
+
+        // Une configuration reçue par lien n'est appliquée qu'au premier affichage
+        const sharedConfig = Dataviz.controlsCreated ? null : readConfigFromUrlFragment();
+        Dataviz.controlsCreated = true;
+        Dataviz.controls = controls;
+
+        // 3. Tableau de bord : les panneaux précédents sont conservés, vidés s'ils utilisent des features absentes de ce dataset
+        const chartSurface = visor.surface({ name: 'Chart', tab: 'Visualizations', styles: { width: CONFIG.general.width } });
+        chartSurface.drawArea.innerHTML = ""; // Tableau de bord du dataset précédent
+
+        const toolbar = document.createElement('div');
+        toolbar.className = 'dashboard-toolbar';
+        createButton('+ Add chart', toolbar, () => activatePanel(addPanel({ chartType: '' as ChartType }, 'small')));
+
+        // Avancement des traitements ; l'abandon laisse les panneaux tels qu'ils étaient dessinés
+        const progressIndicator = { element: document.createElement('div'), bar: document.createElement('progress'), label: document.createElement('span') };
+        progressIndicator.element.className = 'pipeline-progress';
+        progressIndicator.element.append(progressIndicator.bar, progressIndicator.label);
+        createButton('Cancel', progressIndicator.element, () => {
+            pipeline.cancel();
+            Dataviz.dashboardPanels.forEach(panel => panel.element.classList.remove('processing'));
+        });
+        hideHTMLElements(progressIndicator.element);
+        toolbar.appendChild(progressIndicator.element);
+
+        Dataviz.pipeline?.dispose(); // Traitements du dataset précédent
+        const pipeline = createPipelineRunner(Dataviz.workerUrl, Dataviz.workerOptions, progress => renderPipelineProgress(progressIndicator, progress));
+        Dataviz.pipeline = pipeline;
+
+        const grid = document.createElement('div');
+        grid.className = 'dashboard-grid';
+        chartSurface.drawArea.appendChild(toolbar);
+        chartSurface.drawArea.appendChild(grid);
+
+        Dataviz.dashboardGrid = grid;
+        Dataviz.chartSurface = chartSurface;
+        Dataviz.globalFilters = Dataviz.globalFilters.filter(f => collectFilterColumns(f).every(c => features.includes(c)));
+
+        // Le premier panneau reprend la configuration initiale des contrôles
+        const panels = savedPanels.length > 0 ? savedPanels : [{ spec: readChartSpecFromControls([]), size: 'large' as PanelSize, active: true }];
+        panels.forEach(saved => addPanel(unknownSpecFeatures(saved.spec, features).length > 0 ? { chartType: '' as ChartType } : saved.spec, saved.size));
+        const activePanel = Dataviz.dashboardPanels[Math.max(0, panels.findIndex(saved => saved.active))];
+        activatePanel(activePanel, false);
+
+        // Le panneau actif est dessiné au rechargement de sa configuration dans les contrôles, les autres ensuite
+        applySpec!(sharedConfig?.spec ?? activePanel.spec);
+        Dataviz.dashboardPanels.filter(panel => panel !== activePanel).forEach(panel => renderPanel(panel));
+
+        // Ajoute un panneau (après `after` s'il est donné)
+        function addPanel(spec: ChartSpec, size: PanelSize, after: DashboardPanel | null = null): DashboardPanel {
+            const panel: DashboardPanel = createDashboardPanel(Dataviz.dashboardGrid!, spec, size, {
+                onActivate: () => activatePanel(panel),
+                onDuplicate: () => {
+                    const current = panel === Dataviz.activePanel ? readChartSpecFromControls(filters) : panel.spec;
+                    activatePanel(addPanel(JSON.parse(JSON.stringify(current)), panel.size, panel));
+                },
+                onRemove: () => removePanel(panel),
+                onResize: () => panel === Dataviz.activePanel ? updateChart() : renderPanel(panel)
+            }, after ? after.element.nextSibling : null);
+            Dataviz.dashboardPanels.splice(after ? Dataviz.dashboardPanels.indexOf(after) + 1 : Dataviz.dashboardPanels.length, 0, panel);
+            // Clic sur une cellule de la matrice de corrélation : le panneau devient actif puis affiche le nuage de points
+            panel.chartDiv.addEventListener(CORRELATION_SELECT_EVENT, (event: Event) => {
+                const { xFeature, yFeature } = (event as CustomEvent).detail;
+                activatePanel(panel);
+                selectCorrelationPair?.(xFeature, yFeature);
+            });
+            panel.chartDiv.addEventListener(SELECTION_FILTER_EVENT, (event: Event) => {
+                applySelection?.((event as CustomEvent).detail.filters);
+            });
+            return panel;
+        }
 
-            const rowFeature = (document.getElementById('rowDropdown') as HTMLSelectElement).value;
-            const colFeature = (document.getElementById('colDropdown') as HTMLSelectElement).value;
-            const valueFeature = (document.getElementById('valDropdown') as HTMLSelectElement).value;
+        // Les contrôles passent au panneau choisi ; la configuration du panneau quitté est conservée
+        function activatePanel(panel: DashboardPanel, restore: boolean = true): void {
+            const previous = Dataviz.activePanel;
+            if (panel === previous) return;
+            if (previous) {
+                previous.spec = readChartSpecFromControls(filters);
+                previous.element.classList.remove('active');
+            }
+            panel.element.classList.add('active');
+            Dataviz.activePanel = panel;
+            Dataviz.activeDraw = null; // Jusqu'au rendu du panneau
+            Dataviz.chartDiv = panel.chartDiv;
+            Dataviz.chartInfoDiv = panel.infoDiv;
+            if (restore) applySpec?.(panel.spec);
+        }
 
-            const sortColumn = (document.getElementById('sortColumnDropdown') as HTMLSelectElement).value;
-            const sortOrder = (document.getElementById('sortOrderDropdown') as HTMLSelectElement).value as ('asc' | 'desc' | '');
+        // Retire un panneau ; il en reste toujours au moins un
+        function removePanel(panel: DashboardPanel): void {
+            panel.element.remove();
+            Dataviz.dashboardPanels = Dataviz.dashboardPanels.filter(p => p !== panel);
+            if (panel !== Dataviz.activePanel) return;
+            Dataviz.activePanel = null;
+            if (Dataviz.dashboardPanels.length > 0) {
+                activatePanel(Dataviz.dashboardPanels[0]);
+            } else {
+                activatePanel(addPanel({ chartType: '' as ChartType }, 'large'));
+            }
+        }
 
+        // Redessine tous les panneaux (p.ex. après un changement des filtres globaux)
+        function renderDashboard(): void {
+            Dataviz.dashboardPanels.forEach(panel => panel === Dataviz.activePanel ? updateChart() : renderPanel(panel));
+        }
 
-            // Données à utiliser
-            let datasetToUse = JSON.parse(JSON.stringify(Dataviz.currentData)); // Clonage
+        // Dessine un panneau avec les filtres globaux puis ses filtres locaux, à la taille du panneau, une fois ses données traitées
+        // Résout avec les séries dessinées, ou null si le traitement a été remplacé par une demande plus récente ou abandonné
+        function renderPanel(panel: DashboardPanel): Promise<Array<string> | null> {
+            const localFilters = panel.spec.filters ?? [];
+            const panelSpec: ChartSpec = { ...panel.spec, filters: [...Dataviz.globalFilters, ...localFilters] };
+
+            // Comparaison avec un autre dataset : lignes des deux datasets superposées, ou différences ligne à ligne
+            const comparison = buildComparison(panelSpec, Dataviz.currentName, Dataviz.datasets);
+            const spec = comparison?.spec ?? panelSpec;
+            const source: DatasetEntry = comparison?.dataset
+                ?? { data: Dataviz.currentData, features: Dataviz.currentFeatures, types: Dataviz.currentTypes, enumerations: Dataviz.currentEnumerations };
+            const sourceNumericFeatures = comparison ? identifyNumericColumns(source.data, source.features, source.types) : numericFeatures;
+            const enumerations = source.enumerations ?? new Map();
+
+            panel.element.classList.add('processing');
+            return pipeline.run(panel, { data: source.data, spec, features: source.features, numericFeatures: sourceNumericFeatures, enumerations })
+                .then(result => {
+                    if (!result) return null;
+                    panel.element.classList.remove('processing');
+                    return drawPanel(panel, spec, result, enumerations, comparison?.notes ?? []);
+                }, (error: Error) => {
+                    panel.element.classList.remove('processing');
+                    panel.infoDiv.innerText = `Processing failed: ${error.message}`;
+                    return null;
+                });
+        }
 
-            if (filters.length > 0) {
-                datasetToUse = applyFiltering(datasetToUse, filters);
+        function drawPanel(
+            panel: DashboardPanel,
+            spec: ChartSpec,
+            { data: datasetToUse, columns, notes, axisLabels, chart }: PipelineResult,
+            enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>,
+            comparisonNotes: Array<string>
+        ): Array<string> {
+            const isActive = panel === Dataviz.activePanel;
+            const localFilters = panel.spec.filters ?? [];
+            const config = resolveChartConfig(spec);
+            const size = DASHBOARD_PANEL_SIZES[panel.size];
+            config.general.width *= size.width;
+            config.general.height *= size.height;
+            // Le tableau modifie sa vue en place : celle des contrôles pour le panneau actif, celle du panneau sinon
+            config.table = isActive ? CONFIG.table : (panel.spec.table = config.table);
+
+            panel.title.innerText = (spec.chartType || 'New chart') + (localFilters.length > 0 ? ` (${localFilters.length} local filter(s))` : '');
+            panel.infoDiv.innerText = [...comparisonNotes, ...notes].join(' · ');
+            if (isActive) {
+                Dataviz.currentProcessedData = datasetToUse;
+                Dataviz.activeDraw = { data: datasetToUse, spec, config, columns, enumerations, axisLabels, chart };
             }
 
-            if (removeOutliersChecked) {
-                datasetToUse = removeOutliers(datasetToUse, numericFeatures, threshold);
-            }
+            panel.chartDiv.innerHTML = ""; // Nettoyage
+            return Dataviz._Draw(panel.chartDiv, datasetToUse, spec, config, columns, enumerations, axisLabels, chart);
+        }
 
-            if (normalize) {
-                datasetToUse = applyNormalization(datasetToUse, numericFeatures);
-            }
+        // Enregistre l'état des contrôles dans le panneau actif et le redessine
+        function updateChart(): void {
+            const panel = Dataviz.activePanel;
+            if (!panel) return;
+            const spec = readChartSpecFromControls(filters);
+            panel.spec = spec;
+            renderPanel(panel).then(series => {
+                if (!series) return;
+                if (['Line Chart', 'Scatter Plot', 'Box Plot', 'Violin Plot'].includes(spec.chartType)) {
+                    renderSeriesPaletteEditor(document.getElementById('seriesPalette') as HTMLDivElement, series, updateChart);
+                } else if (spec.chartType === 'Bar Chart' || spec.chartType === 'Donut Chart') {
+                    // Couleurs des catégories dans l'ordre de l'énumération
+                    renderSeriesPaletteEditor(document.getElementById('seriesPalette') as HTMLDivElement, series, updateChart, getCategoryColors(series));
+                }
+            });
+        }
+    }
 
-            // Si on veut agréger par "Version" pour n’avoir plus qu’une seule ligne par version :
-            if (applyAggregation && (chartType === 'Bar Chart' || chartType === 'Line Chart')) {
-                // ex. groupFeature = xFeature
-                datasetToUse = aggregateData(datasetToUse, xFeature, yFeature, aggregationMethod);
-                // Après agrégation => tableau = [ { group, value }, ... ]
-                // On renomme "group" -> xFeature, "value" -> yFeature
-                datasetToUse = datasetToUse.map((d: { group: any; value: any; }) => ({
-                    //...d, ?
-                    [xFeature]: d.group,
-                    [yFeature]: d.value
-                }));
-            }
+    // Rendu d'un graphique à partir d'une spécification, sans passer par la surface de contrôles
+    static render(
+        spec: ChartSpec,
+        data: Readonly<Array<Object>>,
+        target: HTMLDivElement,
+        schema?: DatasetSchema
+    ): never | void {
+        const { features, types, enumerations } = schema ?? inferSchema(data);
+        validateChartSpec(spec, features);
 
+        const numericFeatures = identifyNumericColumns(data, features, types);
+        const { data: processedData, columns, axisLabels, chart } = processChartData(data, spec, features, numericFeatures, enumerations);
 
-            const chartRenderHeight = 0.9 * CONFIG.general.height;
-            const chartRenderWidth = 0.95 * CONFIG.general.width;
+        target.innerHTML = ""; // Nettoyage
+        Dataviz._Draw(target, processedData, spec, resolveChartConfig(spec), columns, enumerations ?? new Map(), axisLabels, chart);
+    }
 
-            Dataviz.chartDiv!.innerHTML = ""; // Nettoyage
-            switch (chartType) {
-                case 'Line Chart':
-                    Dataviz._Linechart(chartDiv!, datasetToUse, xFeature, yFeature, chartRenderHeight, chartRenderWidth);
-                    break;
-                case 'Bar Chart':
-                    Dataviz._Barchart(chartDiv!, datasetToUse, xFeature, yFeature, chartRenderHeight, chartRenderWidth);
-                    break;
-                case 'Scatter Plot':
-                    Dataviz._Scatterplot(chartDiv!, datasetToUse, xFeature, yFeature, chartRenderHeight, chartRenderWidth);
-                    break;
-                case 'Heatmap':
-                    Dataviz._Heatmap(chartDiv!, datasetToUse, rowFeature, colFeature, valueFeature, chartRenderHeight, chartRenderWidth);
-                    break;
-                case 'Histogram':
-                    Dataviz._Histogram(chartDiv!, datasetToUse, xFeature, chartRenderHeight, chartRenderWidth);
-                    break;
-                case 'Table':
-                    if (sortColumn && sortColumn !== "" && sortOrder) {
-                        datasetToUse = sortData(datasetToUse, sortColumn, sortOrder as 'asc' | 'desc');
-                    }
-                    Dataviz._Table(chartDiv!, datasetToUse, Dataviz.currentFeatures);
-                    break;
-            }
+    // Exécute la chaîne de traitement d'une spécification et retourne les données qui alimenteraient le graphique
+    static process(
+        spec: ChartSpec,
+        data: Readonly<Array<Object>>,
+        schema?: DatasetSchema
+    ): never | Array<Object> {
+        const { features, types, enumerations } = schema ?? inferSchema(data);
+        validateChartSpec(spec, features);
+
+        const numericFeatures = identifyNumericColumns(data, features, types);
+        return processChartData(data, spec, features, numericFeatures, enumerations).data.slice(); // Copie : les étapes gardent leurs résultats en cache
+    }
+
+    // Dessine le graphique décrit par la spécification (retourne les séries affichées pour Line/Scatter)
+    private static _Draw(
+        dataviz_area: HTMLDivElement,
+        data: Readonly<Array<Object>>,
+        spec: ChartSpec,
+        config: VizConfig,
+        features: Readonly<Array<string>>,
+        enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>,
+        axisLabels: Record<string, string> = {},
+        computed: ChartComputations = computeChartData(data, spec, features, enumerations)
+    ): Array<string> {
+        const chartRenderHeight = 0.9 * config.general.height;
+        const chartRenderWidth = 0.95 * config.general.width;
+
+        const xFeature = spec.xFeature ?? "";
+        const { yFeatures, groupFeature } = resolveSeriesFeatures(spec);
+        const groupEnumeration = enumerations.get(groupFeature);
+        const xCategories = categoricalAxis(data, xFeature, enumerations.get(xFeature));
+
+        switch (spec.chartType) {
+            case 'Line Chart':
+                return Dataviz._Linechart(dataviz_area, data, xFeature, yFeatures, groupFeature, groupEnumeration, xCategories, chartRenderHeight, chartRenderWidth, config, axisLabels);
+            case 'Bar Chart':
+                return Dataviz._Barchart(dataviz_area, data, xFeature, yFeatures[0] ?? "", groupFeature, spec.bar ?? {}, enumerations, chartRenderHeight, chartRenderWidth, config, axisLabels);
+            case 'Donut Chart':
+                return Dataviz._DonutChart(dataviz_area, data, groupFeature, yFeatures[0] ?? "", spec.donut?.hole ?? 0.5, enumerations, chartRenderHeight, chartRenderWidth, config, axisLabels);
+            case 'Scatter Plot':
+                return Dataviz._Scatterplot(dataviz_area, data, xFeature, yFeatures, groupFeature, groupEnumeration, xCategories, computed.trend ?? null, chartRenderHeight, chartRenderWidth, config, axisLabels);
+            case 'Heatmap':
+                Dataviz._Heatmap(dataviz_area, computed.heatmap!, spec.rowFeature ?? "", spec.colFeature ?? "", chartRenderHeight, chartRenderWidth, config, axisLabels);
+                break;
+            case 'Histogram':
+                Dataviz._Histogram(dataviz_area, data, xFeature, enumerations, chartRenderHeight, chartRenderWidth, config, axisLabels);
+                break;
+            case 'Box Plot':
+            case 'Violin Plot':
+                return Dataviz._DistributionPlot(dataviz_area, computed.distributions!, yFeatures[0] ?? "", groupFeature,
+                    spec.chartType === 'Box Plot' ? 'box' : 'violin', chartRenderHeight, chartRenderWidth, config, axisLabels);
+            case 'Correlation Matrix':
+                Dataviz._CorrelationMatrix(dataviz_area, computed.correlation!.features, computed.correlation!.values, spec.correlation?.method ?? 'pearson', chartRenderHeight, chartRenderWidth, config, axisLabels);
+                break;
+            case 'Pivot Table':
+                Dataviz._PivotTable(dataviz_area, computed.pivot!, spec.rowFeature ?? "", spec.colFeature ?? "", spec.valueFeature ?? "", spec.pivot ?? {}, config);
+                if (computed.heatmap) {
+                    // Cellules du tableau croisé (même agrégation)
+                    const heatmapArea = document.createElement('div');
+                    dataviz_area.appendChild(heatmapArea);
+                    Dataviz._Heatmap(heatmapArea, computed.heatmap, spec.rowFeature ?? "", spec.colFeature ?? "", chartRenderHeight, chartRenderWidth, config, axisLabels);
+                }
+                break;
+            case 'Table':
+                Dataviz._Table(dataviz_area, data, features, config);
+                break;
+            case 'Summary':
+                Dataviz._Summary(dataviz_area, data, computed.summary!, config);
+                break;
         }
+        return [];
     }
 
-    // Méthode pour afficher un graphique de type Line Chart
+    // Méthode pour afficher un graphique de type Line Chart (retourne les noms des séries affichées)
     private static _Linechart(
         dataviz_area: HTMLDivElement,
         data: Readonly<Array<Object>>,
         xFeature: string,
-        yFeature: string,
+        yFeatures: Array<string>,
+        groupFeature: string,
+        groupEnumeration: Array<boolean | number | string> | null | undefined,
+        xCategories: Array<any> | null,
         height: number,
-        width: number
-    ): never | void {
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
+    ): Array<string> {
         try {
-            // Préparer les données pour tfvis.render.linechart
-            const line = data.map(datum => ({
-                x: (datum as any)[xFeature] as number,
-                y: (datum as any)[yFeature] as number
-            })); // Tri croissant sur l'axe X
-
-            line.sort((a, b) => a.x - b.x);
-
-            const data_ = { values: [line], series: [yFeature] };
+            // Préparer les données pour tfvis.render.linechart : une ligne par série
+            const data_ = buildSeriesData(data, xFeature, yFeatures, groupFeature, groupEnumeration, xCategories);
+            data_.values.forEach(line => line.sort((a, b) => a.x - b.x)); // Tri croissant sur l'axe X
+
+            // Axe X quantitatif sur les vraies valeurs x (espacement irrégulier, négatifs...) et non sur les indices 0..n-1 ;
+            // axe ordinal dans l'ordre de l'énumération pour une feature catégorielle
+            const xValues: Array<number> = [];
+            data_.values.forEach(line => line.forEach(p => xValues.push(p.x)));
+            const xAxis = xCategories
+                ? { values: toOrdinalSeries(data_.values, xCategories), xType: 'ordinal', xAxisDomain: undefined }
+                : { values: data_.values, xType: 'quantitative', xAxisDomain: computeAxisDomain(xValues) };
+
+            // Sélection d'un rectangle : rendu SVG (tfvis n'expose pas les événements de ses graphiques)
+            if (config.general.selectable) {
+                Dataviz._SeriesChartSVG(dataviz_area, data_.values, data_.series, 'line', axisLabels[xFeature] ?? xFeature, yFeatures.map(f => axisLabels[f] ?? f).join(', '),
+                    xCategories, height, width, config,
+                    (xRange, yRange) => dispatchSelection(dataviz_area, brushFilters(xFeature, yFeatures, xCategories, axisLabels, xRange, yRange)));
+                return data_.series;
+            }
 
             // Rendu du graphique
-            tfvis.render.linechart(dataviz_area, data_, {
-                xLabel: xFeature,
-                yLabel: yFeature,
+            tfvis.render.linechart(dataviz_area, { values: xAxis.values, series: data_.series }, {
+                xLabel: axisLabels[xFeature] ?? xFeature,
+                yLabel: yFeatures.map(f => axisLabels[f] ?? f).join(', '),
                 width,
                 height,
-                fontSize: CONFIG.general.fontSize,
-                zoomToFit: CONFIG.general.zoomToFit,
+                fontSize: config.general.fontSize,
+                zoomToFit: config.general.zoomToFit,
+                xType: xAxis.xType,
+                xAxisDomain: xAxis.xAxisDomain,
                 //xType: CONFIG.general.xType,
                 //yType: CONFIG.general.yType,
-                seriesColors: CONFIG.general.seriesColor
+                seriesColors: getSeriesColors(data_.series, config)
             });
+            return data_.series;
         } catch (error: unknown) {
             handleError('_Linechart', error);
         }
     }
 
     // Méthode pour afficher un graphique de type Bar Chart
+    // Le mode simple vertical passe par tfvis ; les barres groupées/empilées/100 % et horizontales sont dessinées en SVG
     private static _Barchart(
         dataviz_area: HTMLDivElement,
         data: Readonly<Array<Object>>,
         xFeature: string,
         yFeature: string,
+        splitFeature: string,
+        options: BarOptions,
+        enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>,
         height: number,
-        width: number
-    ): never | void {
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
+    ): Array<string> {
         try {
+            const mode = splitFeature ? (options.mode ?? 'simple') : 'simple';
+            // tfvis trie lui-même les barres : une feature catégorielle ou énumérée passe par le rendu SVG,
+            // de même que la sélection (tfvis n'expose pas les clics sur ses barres)
+            const ordered = !!enumerations.get(xFeature) || categoricalAxis(data, xFeature) !== null;
+            if (mode !== 'simple' || options.orientation === 'horizontal' || ordered || config.general.selectable) {
+                const split = mode === 'simple' ? "" : splitFeature;
+                const onSelect = (category: any, series: any) => dispatchSelection(dataviz_area, [
+                    xFeature in axisLabels ? null : valueFilter(xFeature, category),
+                    split ? valueFilter(split, series) : null
+                ]);
+                return Dataviz._BarchartSVG(dataviz_area, data, xFeature, yFeature, split, mode, options.orientation ?? 'vertical', enumerations, height, width, config, axisLabels,
+                    config.general.selectable ? onSelect : undefined);
+            }
+
             // Préparer les données pour tfvis.render.barchart
             const data_ = data.map(datum => ({
                 index: (datum as any)[xFeature], // ex: 1, 2, 3...
                 value: (datum as any)[yFeature]  // ex: aggregated salary
             }));
 
+            // Une couleur par barre quand des outliers sont marqués
+            const color = data.some(datum => (datum as any)[OUTLIER_FLAG])
+                ? data.map(datum => (datum as any)[OUTLIER_FLAG] ? config.general.outlierColor : config.general.color)
+                : config.general.color;
+
             // Rendu du graphique
             tfvis.render.barchart(dataviz_area, data_, {
-                xLabel: xFeature,
-                yLabel: yFeature,
+                xLabel: axisLabels[xFeature] ?? xFeature,
+                yLabel: axisLabels[yFeature] ?? yFeature,
                 width,
                 height,
-                fontSize: CONFIG.general.fontSize,
-                zoomToFit: CONFIG.general.zoomToFit,
+                fontSize: config.general.fontSize,
+                zoomToFit: config.general.zoomToFit,
                 //xType: CONFIG.general.xType,
                 //yType: CONFIG.general.yType,
-                color: CONFIG.general.color,
+                color,
                 timestamp: Date.now() // test pour contourner le problème de non generation si les opts non changées => OUI ça résoud le problème :)
             });
+            return [];
         } catch (error: unknown) {
             handleError('_Barchart', error);
         }
     }
 
-    // Méthode pour afficher un graphique de type Scatter Plot
-    private static _Scatterplot(
+    // Barres en SVG : une barre par valeur de xFeature, éventuellement découpée par splitFeature (groupée, empilée ou 100 %)
+    private static _BarchartSVG(
         dataviz_area: HTMLDivElement,
         data: Readonly<Array<Object>>,
         xFeature: string,
         yFeature: string,
+        splitFeature: string,
+        mode: BarMode,
+        orientation: 'vertical' | 'horizontal',
+        enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>,
         height: number,
-        width: number
-    ): never | void {
+        width: number,
+        config: VizConfig,
+        axisLabels: Record<string, string>,
+        onSelect?: (category: any, series: any) => void // Clic sur une barre (sélection)
+    ): Array<string> {
+        const { categories, series, values, outliers } = buildBarData(data, xFeature, yFeature, splitFeature, enumerations);
+        if (categories.length === 0) {
+            dataviz_area.innerText = 'No data to display.';
+            return [];
+        }
+        const colors = splitFeature ? getCategoryColors(series, config) : [config.general.color];
+
+        // Segments [début, fin] de chaque barre selon le mode
+        const segments = values.map(row => {
+            const total = row.reduce((sum: number, v) => sum + Math.abs(v ?? 0), 0);
+            let positive = 0, negative = 0;
+            return row.map(v => {
+                let value = v ?? 0;
+                if (mode === 'percent') value = total ? (value / total) * 100 : 0;
+                if (mode === 'grouped' || mode === 'simple') return [0, value];
+                const start = value >= 0 ? positive : negative;
+                if (value >= 0) positive += value; else negative += value;
+                return [start, start + value];
+            });
+        });
+        const extent = computeMinMax(([] as Array<number>).concat(...segments.map(row => ([] as Array<number>).concat(...row)), 0))!;
+        const ticks = niceTicks(extent[0], extent[1]);
+        const [min, max] = [Math.min(extent[0], ticks[0]), Math.max(extent[1], ticks[ticks.length - 1])];
+
+        const fontSize = config.general.fontSize;
+        const format = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+        const labels = categories.map(c => String(c).length > 20 ? String(c).slice(0, 19) + '…' : String(c));
+        const longestLabel = Math.max(...labels.map(l => l.length));
+        const legendWidth = splitFeature ? Math.max(...series.map(s => String(s).length), splitFeature.length) * fontSize * 0.6 + fontSize * 3 : 0;
+        const horizontal = orientation === 'horizontal';
+        const margin = {
+            top: fontSize,
+            right: fontSize + legendWidth,
+            bottom: fontSize * 4,
+            left: (horizontal ? longestLabel : Math.max(...ticks.map(t => format(t).length))) * fontSize * 0.6 + fontSize * 3
+        };
+        const plotWidth = width - margin.left - margin.right;
+        const plotHeight = height - margin.top - margin.bottom;
+
+        // Échelle des valeurs (axe y en vertical, axe x en horizontal) et bandes des catégories
+        const valueLength = horizontal ? plotWidth : plotHeight;
+        const scale = (v: number) => (v - min) / ((max - min) || 1) * valueLength;
+        const band = (horizontal ? plotHeight : plotWidth) / categories.length;
+        const barSpan = band * 0.8;
+
+        const svg = createSVGElement('svg', { width, height, viewBox: `0 0 ${width} ${height}`, 'font-size': fontSize, 'font-family': 'sans-serif' });
+        if (config.general.zoomToFit) svg.style.width = '100%';
+        const plot = createSVGElement('g', { transform: `translate(${margin.left},${margin.top})` }, svg);
+
+        // Rectangle dans le repère du graphique : position sur la bande, étendue de valeurs [from, to]
+        const bar = (offset: number, thickness: number, from: number, to: number, attributes: Record<string, string | number>) => {
+            const [a, b] = [scale(Math.min(from, to)), scale(Math.max(from, to))];
+            return createSVGElement('rect', horizontal
+                ? { x: a, y: offset, width: Math.max(b - a, 0.5), height: thickness, ...attributes }
+                : { x: offset, y: valueLength - b, width: thickness, height: Math.max(b - a, 0.5), ...attributes }, plot);
+        };
+
+        // Grille et graduations des valeurs
+        ticks.forEach(t => {
+            const p = scale(t);
+            if (horizontal) {
+                createSVGElement('line', { x1: p, x2: p, y1: 0, y2: plotHeight, stroke: t === 0 ? '#888888' : '#eeeeee' }, plot);
+                createSVGElement('text', { x: p, y: plotHeight + fontSize * 1.2, 'text-anchor': 'middle' }, plot).textContent = format(t);
+            } else {
+                createSVGElement('line', { x1: 0, x2: plotWidth, y1: valueLength - p, y2: valueLength - p, stroke: t === 0 ? '#888888' : '#eeeeee' }, plot);
+                createSVGElement('text', { x: -fontSize * 0.5, y: valueLength - p, 'text-anchor': 'end', 'dominant-baseline': 'central' }, plot).textContent = format(t);
+            }
+        });
+
+        categories.forEach((category, i) => {
+            const start = i * band + (band - barSpan) / 2;
+            segments[i].forEach(([from, to], j) => {
+                if (values[i][j] == null) return;
+                const offset = mode === 'grouped' ? start + j * barSpan / series.length : start;
+                const thickness = mode === 'grouped' ? barSpan / series.length : barSpan;
+                const fill = !splitFeature && outliers[i] ? config.general.outlierColor : colors[j];
+                const rect = bar(offset, thickness, from, to, { fill });
+                if (onSelect) {
+                    rect.style.cursor = 'pointer';
+                    rect.addEventListener('click', () => onSelect(category, series[j]));
+                }
+                const shown = mode === 'percent' ? `${format(to - from)} %` : format(values[i][j]!);
+                createSVGElement('title', {}, rect).textContent = `${category}${splitFeature ? ` / ${series[j]}` : ''}: ${shown}`;
+            });
+
+            const center = i * band + band / 2;
+            createSVGElement('text', horizontal
+                ? { x: -fontSize * 0.5, y: center, 'text-anchor': 'end', 'dominant-baseline': 'central' }
+                : { x: center, y: plotHeight + fontSize * 1.2, 'text-anchor': 'middle' }, plot).textContent = labels[i];
+        });
+
+        // Titres des axes
+        const valueTitle = (yFeature ? axisLabels[yFeature] ?? yFeature : 'count') + (mode === 'percent' ? ' (%)' : '');
+        const categoryTitle = axisLabels[xFeature] ?? xFeature;
+        const [bottomTitle, leftTitle] = horizontal ? [valueTitle, categoryTitle] : [categoryTitle, valueTitle];
+        createSVGElement('text', { x: margin.left + plotWidth / 2, y: height - fontSize * 0.5, 'text-anchor': 'middle', 'font-weight': 'bold' }, svg).textContent = bottomTitle;
+        const leftY = margin.top + plotHeight / 2;
+        createSVGElement('text', { x: fontSize, y: leftY, 'text-anchor': 'middle', 'font-weight': 'bold', transform: `rotate(-90 ${fontSize} ${leftY})` }, svg).textContent = leftTitle;
+
+        if (splitFeature) {
+            drawSVGLegend(svg, margin.left + plotWidth + fontSize * 2, margin.top, axisLabels[splitFeature] ?? splitFeature, series.map(String), colors, fontSize);
+        }
+
+        dataviz_area.appendChild(svg);
+        return splitFeature ? series.map(String) : [];
+    }
+
+    // Méthode pour afficher un graphique en anneau (Donut Chart) : part de chaque catégorie dans le total
+    private static _DonutChart(
+        dataviz_area: HTMLDivElement,
+        data: Readonly<Array<Object>>,
+        categoryFeature: string,
+        valueFeature: string,
+        hole: number,
+        enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>,
+        height: number,
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
+    ): Array<string> {
         try {
-            // Préparer les données pour tfvis.render.scatterplot
-            const scatterValues = data.map(datum => ({
-                x: (datum as any)[xFeature] as number,
-                y: (datum as any)[yFeature] as number
-            }));
+            // Somme de la feature de valeur par catégorie (nombre de lignes sans feature de valeur)
+            const { categories, values } = buildBarData(data, categoryFeature, valueFeature, "", enumerations);
+            const shares = values.map(row => Math.max(row[0] ?? 0, 0)); // Les parts négatives n'ont pas de sens
+            const total = shares.reduce((sum, v) => sum + v, 0);
+            if (total === 0) {
+                dataviz_area.innerText = 'No data to display.';
+                return [];
+            }
 
-            const data_ = { values: [scatterValues], series: [yFeature] };
+            const names = categories.map(String);
+            const colors = getCategoryColors(names, config);
+            const fontSize = config.general.fontSize;
+            const legendWidth = Math.max(...names.map(n => n.length + 10), categoryFeature.length) * fontSize * 0.6 + fontSize * 3;
+            const radius = Math.max(Math.min(width - legendWidth, height) / 2 - fontSize, 10);
+            const inner = radius * Math.min(Math.max(hole, 0), 0.9);
+            const [cx, cy] = [radius + fontSize, height / 2];
+            const format = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+            const svg = createSVGElement('svg', { width, height, viewBox: `0 0 ${width} ${height}`, 'font-size': fontSize, 'font-family': 'sans-serif' });
+            if (config.general.zoomToFit) svg.style.width = '100%';
+
+            const point = (r: number, angle: number) => `${cx + r * Math.sin(angle)},${cy - r * Math.cos(angle)}`;
+            let angle = 0;
+            shares.forEach((share, i) => {
+                if (share === 0) return;
+                // Un arc SVG ne peut pas faire un tour complet : on s'arrête juste avant
+                const sweep = Math.min(share / total * 2 * Math.PI, 2 * Math.PI - 1e-6);
+                const [a0, a1] = [angle, angle + sweep];
+                const large = sweep > Math.PI ? 1 : 0;
+                const d = inner > 0
+                    ? `M${point(radius, a0)}A${radius},${radius} 0 ${large} 1 ${point(radius, a1)}L${point(inner, a1)}A${inner},${inner} 0 ${large} 0 ${point(inner, a0)}Z`
+                    : `M${cx},${cy}L${point(radius, a0)}A${radius},${radius} 0 ${large} 1 ${point(radius, a1)}Z`;
+                const slice = createSVGElement('path', { d, fill: colors[i], stroke: '#ffffff' }, svg);
+                createSVGElement('title', {}, slice).textContent = `${names[i]}: ${format(values[i][0]!)} (${format(share / total * 100)} %)`;
+
+                // Pourcentage au milieu des parts assez grandes
+                if (share / total >= 0.05) {
+                    const [tx, ty] = point((radius + inner) / 2 || radius * 0.6, (a0 + a1) / 2).split(',').map(Number);
+                    createSVGElement('text', { x: tx, y: ty, 'text-anchor': 'middle', 'dominant-baseline': 'central', fill: contrastTextColor(colors[i]) }, svg)
+                        .textContent = `${format(share / total * 100)} %`;
+                }
+                angle = a1;
+            });
 
-            // Rendu du graphique
-            tfvis.render.scatterplot(dataviz_area, data_, {
-                xLabel: xFeature,
-                yLabel: yFeature,
+            if (inner > 0) {
+                createSVGElement('text', { x: cx, y: cy, 'text-anchor': 'middle', 'dominant-baseline': 'central', 'font-weight': 'bold' }, svg)
+                    .textContent = `${valueFeature ? axisLabels[valueFeature] ?? valueFeature : 'count'}: ${format(total)}`;
+            }
+
+            const legendNames = names.map((n, i) => `${n} (${format(shares[i] / total * 100)} %)`);
+            drawSVGLegend(svg, cx + radius + fontSize * 2, fontSize, axisLabels[categoryFeature] ?? categoryFeature, legendNames, colors, fontSize);
+
+            dataviz_area.appendChild(svg);
+            return names;
+        } catch (error: unknown) {
+            handleError('_DonutChart', error);
+        }
+    }
+
+    // Méthode pour afficher un graphique de type Scatter Plot (retourne les noms des séries affichées)
+    private static _Scatterplot(
+        dataviz_area: HTMLDivElement,
+        data: Readonly<Array<Object>>,
+        xFeature: string,
+        yFeatures: Array<string>,
+        groupFeature: string,
+        groupEnumeration: Array<boolean | number | string> | null | undefined,
+        xCategories: Array<any> | null,
+        trendData: TrendSeries | null,
+        height: number,
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
+    ): Array<string> {
+        try {
+            // Préparer les données pour tfvis.render.scatterplot : un nuage par série
+            const data_ = buildSeriesData(data, xFeature, yFeatures, groupFeature, groupEnumeration, xCategories);
+
+            // Courbes de tendance : séries supplémentaires, statistiques affichées sous le graphique
+            let chartArea = dataviz_area;
+            let trendSeries: Array<string> = [];
+            if (trendData) {
+                // Une courbe ajustée sur une série affichée en reprend la couleur
+                trendData.series.forEach((name, i) => {
+                    const base = trendData.baseSeries[i];
+                    if (data_.series.includes(base) && !(name in config.general.seriesColorMap)) {
+                        config.general.seriesColorMap[name] = getSeriesColors([base], config)[0];
+                    }
+                });
+                data_.values.push(...trendData.values);
+                data_.series.push(...trendData.series);
+                trendSeries = trendData.series;
+
+                chartArea = document.createElement('div');
+                dataviz_area.appendChild(chartArea);
+                const statsDiv = document.createElement('div');
+                statsDiv.className = 'trend-stats';
+                trendData.statistics.forEach(line => {
+                    const lineDiv = document.createElement('div');
+                    lineDiv.innerText = line;
+                    statsDiv.appendChild(lineDiv);
+                });
+                dataviz_area.appendChild(statsDiv);
+            }
+
+            // Sélection d'un rectangle : rendu SVG (tfvis n'expose pas les événements de ses graphiques)
+            if (config.general.selectable) {
+                Dataviz._SeriesChartSVG(chartArea, data_.values, data_.series, 'scatter', axisLabels[xFeature] ?? xFeature, yFeatures.map(f => axisLabels[f] ?? f).join(', '),
+                    xCategories, height, width, config,
+                    (xRange, yRange) => dispatchSelection(dataviz_area, brushFilters(xFeature, yFeatures, xCategories, axisLabels, xRange, yRange)),
+                    trendSeries);
+                return data_.series;
+            }
+
+            // Rendu du graphique (axe ordinal dans l'ordre de l'énumération pour une feature catégorielle)
+            const values = xCategories ? toOrdinalSeries(data_.values, xCategories) : data_.values;
+            tfvis.render.scatterplot(chartArea, { values, series: data_.series }, {
+                xLabel: axisLabels[xFeature] ?? xFeature,
+                yLabel: yFeatures.map(f => axisLabels[f] ?? f).join(', '),
                 width,
                 height,
-                fontSize: CONFIG.general.fontSize,
-                zoomToFit: CONFIG.general.zoomToFit,
+                fontSize: config.general.fontSize,
+                zoomToFit: config.general.zoomToFit,
+                xType: xCategories ? 'ordinal' : undefined,
                 //xType: CONFIG.general.xType,
                 //yType: CONFIG.general.yType,
-                seriesColors: CONFIG.general.seriesColor
+                seriesColors: getSeriesColors(data_.series, config)
             });
+            return data_.series;
         } catch (error: unknown) {
             handleError('_Scatterplot', error);
         }
     }
 
+    // Courbes ou nuage de points en SVG, avec sélection d'un rectangle à la souris (brushing)
+    // onBrush reçoit les intervalles [min, max] sélectionnés en x (rang de la catégorie pour un axe catégoriel) et en y
+    private static _SeriesChartSVG(
+        dataviz_area: HTMLDivElement,
+        values: Array<Array<{ x: number; y: number }>>,
+        series: Array<string>,
+        kind: 'line' | 'scatter',
+        xLabel: string,
+        yLabel: string,
+        xCategories: Array<any> | null,
+        height: number,
+        width: number,
+        config: VizConfig,
+        onBrush: (xRange: [number, number], yRange: [number, number]) => void,
+        lineSeries: Array<string> = [] // Séries tracées en ligne dans un nuage de points (courbes de tendance)
+    ): void {
+        const xs = ([] as Array<number>).concat(...values.map(points => points.map(p => p.x)));
+        const ys = ([] as Array<number>).concat(...values.map(points => points.map(p => p.y)));
+        if (xs.length === 0) {
+            dataviz_area.innerText = 'No data to display.';
+            return;
+        }
+
+        // Domaines étendus aux graduations (un domaine réduit à une valeur est élargi)
+        const widen = ([min, max]: [number, number]): [number, number] => min === max ? [min - 1, max + 1] : [min, max];
+        const yTicks = niceTicks(...widen(computeMinMax(ys)!));
+        const xTicks = xCategories ? xCategories.map((_, i) => i) : niceTicks(...widen(computeMinMax(xs)!));
+        const [xMin, xMax] = xCategories
+            ? [-0.5, xCategories.length - 0.5]
+            : [Math.min(computeMinMax(xs)![0], xTicks[0]), Math.max(computeMinMax(xs)![1], xTicks[xTicks.length - 1])];
+        const [yMin, yMax] = [Math.min(computeMinMax(ys)![0], yTicks[0]), Math.max(computeMinMax(ys)![1], yTicks[yTicks.length - 1])];
+
+        const fontSize = config.general.fontSize;
+        const format = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+        const xTickLabel = (t: number) => xCategories ? String(xCategories[t]) : format(t);
+        const colors = getSeriesColors(series, config);
+        const legendWidth = series.length > 1 ? Math.max(...series.map(s => s.length)) * fontSize * 0.6 + fontSize * 3 : 0;
+        const margin = {
+            top: fontSize,
+            right: fontSize + legendWidth,
+            bottom: fontSize * 4,
+            left: Math.max(...yTicks.map(t => format(t).length)) * fontSize * 0.6 + fontSize * 3
+        };
+        const plotWidth = width - margin.left - margin.right;
+        const plotHeight = height - margin.top - margin.bottom;
+        const scaleX = (v: number) => (v - xMin) / ((xMax - xMin) || 1) * plotWidth;
+        const scaleY = (v: number) => plotHeight - (v - yMin) / ((yMax - yMin) || 1) * plotHeight;
+        const invertX = (p: number) => xMin + p / plotWidth * (xMax - xMin);
+        const invertY = (p: number) => yMin + (plotHeight - p) / plotHeight * (yMax - yMin);
+
+        const svg = createSVGElement('svg', { width, height, viewBox: `0 0 ${width} ${height}`, 'font-size': fontSize, 'font-family': 'sans-serif' });
+        if (config.general.zoomToFit) svg.style.width = '100%';
+        const plot = createSVGElement('g', { transform: `translate(${margin.left},${margin.top})` }, svg);
+
+        // Grille et graduations
+        yTicks.forEach(t => {
+            createSVGElement('line', { x1: 0, x2: plotWidth, y1: scaleY(t), y2: scaleY(t), stroke: '#eeeeee' }, plot);
+            createSVGElement('text', { x: -fontSize * 0.5, y: scaleY(t), 'text-anchor': 'end', 'dominant-baseline': 'central' }, plot).textContent = format(t);
+        });
+        xTicks.forEach(t => {
+            createSVGElement('line', { x1: scaleX(t), x2: scaleX(t), y1: 0, y2: plotHeight, stroke: '#eeeeee' }, plot);
+            createSVGElement('text', { x: scaleX(t), y: plotHeight + fontSize * 1.2, 'text-anchor': 'middle' }, plot).textContent = xTickLabel(t);
+        });
+
+        values.forEach((points, i) => {
+            if (kind === 'line' || lineSeries.includes(series[i])) {
+                const d = points.map((p, k) => `${k === 0 ? 'M' : 'L'}${scaleX(p.x)},${scaleY(p.y)}`).join('');
+                createSVGElement('path', { d, fill: 'none', stroke: colors[i], 'stroke-width': 2 }, plot);
+            } else {
+                points.forEach(p => {
+                    const dot = createSVGElement('circle', { cx: scaleX(p.x), cy: scaleY(p.y), r: 3, fill: colors[i], 'fill-opacity': 0.7 }, plot);
+                    createSVGElement('title', {}, dot).textContent = `${series[i]}: (${xTickLabel(p.x)}, ${format(p.y)})`;
+                });
+            }
+        });
+
+        // Titres des axes et légende
+        createSVGElement('text', { x: margin.left + plotWidth / 2, y: height - fontSize * 0.5, 'text-anchor': 'middle', 'font-weight': 'bold' }, svg).textContent = xLabel;
+        const leftY = margin.top + plotHeight / 2;
+        createSVGElement('text', { x: fontSize, y: leftY, 'text-anchor': 'middle', 'font-weight': 'bold', transform: `rotate(-90 ${fontSize} ${leftY})` }, svg).textContent = yLabel;
+        if (series.length > 1) {
+            drawSVGLegend(svg, margin.left + plotWidth + fontSize * 2, margin.top, '', series, colors, fontSize);
+        }
+
+        // Rectangle de sélection : coordonnées de la souris ramenées au repère du graphique (le SVG peut être redimensionné)
+        const overlay = createSVGElement('rect', { x: 0, y: 0, width: plotWidth, height: plotHeight, fill: 'transparent', cursor: 'crosshair' }, plot);
+        const brush = createSVGElement('rect', { fill: 'rgba(31, 119, 180, 0.15)', stroke: '#1f77b4', visibility: 'hidden', 'pointer-events': 'none' }, plot);
+        const toPlot = (event: MouseEvent): [number, number] => {
+            const box = svg.getBoundingClientRect();
+            const x = (event.clientX - box.left) * width / box.width - margin.left;
+            const y = (event.clientY - box.top) * height / box.height - margin.top;
+            return [Math.min(Math.max(x, 0), plotWidth), Math.min(Math.max(y, 0), plotHeight)];
+        };
+        let start: [number, number] | null = null;
+        const drawBrush = (end: [number, number]) => {
+            const [x, y] = [Math.min(start![0], end[0]), Math.min(start![1], end[1])];
+            ['x', 'y', 'width', 'height'].forEach((attr, i) =>
+                brush.setAttribute(attr, String([x, y, Math.abs(end[0] - start![0]), Math.abs(end[1] - start![1])][i])));
+        };
+        overlay.addEventListener('mousedown', event => {
+            start = toPlot(event);
+            drawBrush(start);
+            brush.setAttribute('visibility', 'visible');
+            event.preventDefault();
+        });
+        svg.addEventListener('mousemove', event => {
+            if (start) drawBrush(toPlot(event));
+        });
+        svg.addEventListener('mouseleave', () => {
+            start = null;
+            brush.setAttribute('visibility', 'hidden');
+        });
+        svg.addEventListener('mouseup', event => {
+            if (!start) return;
+            const end = toPlot(event);
+            const [from, to] = [start, end];
+            start = null;
+            brush.setAttribute('visibility', 'hidden');
+            // Un simple clic n'est pas une sélection
+            if (Math.abs(to[0] - from[0]) < 3 && Math.abs(to[1] - from[1]) < 3) return;
+            const round = (v: number) => Number(v.toPrecision(6));
+            const xRange = [round(invertX(Math.min(from[0], to[0]))), round(invertX(Math.max(from[0], to[0])))] as [number, number];
+            const yRange = [round(invertY(Math.max(from[1], to[1]))), round(invertY(Math.min(from[1], to[1])))] as [number, number];
+            onBrush(xRange, yRange);
+        });
+
+        dataviz_area.appendChild(svg);
+    }
+
+    // Compteur des motifs SVG (identifiants uniques quand plusieurs heatmaps sont affichées)
+    private static heatmapPatternCount = 0;
+
     // Méthode pour afficher une Heatmap
+    // Rendu SVG propre (tfvis ne gère ni les cellules vides, ni les annotations, ni les palettes divergentes)
     private static _Heatmap(
         dataviz_area: HTMLDivElement,
-        data: Readonly<Array<Object>>,
+        heatmap: HeatmapData,
         rowFeature: string,
         colFeature: string,
-        valueFeature: string,
         height: number,
-        width: number
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
     ): never | void {
         try {
-            // Préparer les données pour la heatmap
-            const { values, rowLabels, colLabels } = buildHeatmapData(data as Array<Object>, rowFeature, colFeature, valueFeature);
+            const { values, rowLabels, colLabels, bins } = heatmap;
+            if (rowLabels.length === 0 || colLabels.length === 0) {
+                dataviz_area.innerText = 'No data to display.';
+                return;
+            }
 
-            // Rendu de la heatmap
-            tfvis.render.heatmap(dataviz_area, { values, xTickLabels: rowLabels, yTickLabels: colLabels }, {
-                xLabel: rowFeature,
-                yLabel: colFeature,
-                width,
-                height,
-                fontSize: CONFIG.general.fontSize,
-                zoomToFit: CONFIG.general.zoomToFit,
-                //xType: CONFIG.general.xType, 
-                //yType: CONFIG.general.yType, 
-                colorMap: CONFIG.heatmap.colorMap
-            });
+            // Clic sur une cellule : filtre sur sa ligne et sa colonne (intervalles pour les features découpées)
+            const onCellClick = config.general.selectable
+                ? (row: number, col: number) => dispatchSelection(dataviz_area, [
+                    valueFilter(rowFeature, rowLabels[row], bins.get(rowFeature)),
+                    valueFilter(colFeature, colLabels[col], bins.get(colFeature))
+                ])
+                : undefined;
+            Dataviz._HeatmapSVG(dataviz_area, values, rowLabels.map(String), colLabels.map(String), axisLabels[rowFeature] ?? rowFeature, axisLabels[colFeature] ?? colFeature,
+                height, width, config, { onCellClick });
         } catch (error: unknown) {
             handleError('_Heatmap', error);
         }
     }
 
+    // Dessine une matrice de valeurs en SVG : values[i][j] pour l'étiquette i en x et j en y (null : cellule hachurée)
+    private static _HeatmapSVG(
+        dataviz_area: HTMLDivElement,
+        values: Array<Array<number | null>>,
+        rowLabels: Array<string>,
+        colLabels: Array<string>,
+        xLabel: string,
+        yLabel: string,
+        height: number,
+        width: number,
+        config: VizConfig,
+        options: { domain?: [number, number]; onCellClick?: (row: number, col: number) => void } = {}
+    ): void {
+        // Domaine des couleurs ; symétrique autour du centre pour une palette divergente
+        const colorMap = HEATMAP_COLOR_MAPS[config.heatmap.colorMap] ?? HEATMAP_COLOR_MAPS.viridis;
+        let [min, max] = options.domain ?? computeMinMax(([] as Array<number | null>).concat(...values).filter((v): v is number => typeof v === 'number' && !isNaN(v))) ?? [0, 0];
+        if (colorMap.diverging && !options.domain) {
+            const spread = Math.max(Math.abs(max - config.heatmap.center), Math.abs(min - config.heatmap.center)) || 1;
+            [min, max] = [config.heatmap.center - spread, config.heatmap.center + spread];
+        }
+        const colorOf = (value: number) => interpolateColor(colorMap.stops, max === min ? 0.5 : (value - min) / (max - min));
+        const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+        // Marges calculées sur la longueur des étiquettes (feature ligne en x, feature colonne en y, comme tfvis)
+        const fontSize = config.general.fontSize;
+        const truncate = (label: string) => label.length > 20 ? label.slice(0, 19) + '…' : label;
+        const longest = (labels: Array<string>) => Math.max(...labels.map(l => truncate(l).length));
+        const legendWidth = 60;
+        const margin = {
+            top: fontSize,
+            right: legendWidth + fontSize,
+            bottom: longest(rowLabels) * fontSize * 0.45 + fontSize * 3,
+            left: longest(colLabels) * fontSize * 0.6 + fontSize * 3
+        };
+        const plotWidth = Math.max(width - margin.left - margin.right, rowLabels.length * 4);
+        const plotHeight = Math.max(height - margin.top - margin.bottom, colLabels.length * 4);
+        const cellWidth = plotWidth / rowLabels.length;
+        const cellHeight = plotHeight / colLabels.length;
+
+        const svg = createSVGElement('svg', {
+            width, height: margin.top + plotHeight + margin.bottom,
+            viewBox: `0 0 ${width} ${margin.top + plotHeight + margin.bottom}`,
+            'font-size': fontSize, 'font-family': 'sans-serif'
+        });
+        if (config.general.zoomToFit) svg.style.width = '100%';
+
+        // Motif hachuré des cellules sans donnée
+        const patternId = `dataviz-heatmap-empty-${++Dataviz.heatmapPatternCount}`;
+        const defs = createSVGElement('defs', {}, svg);
+        const pattern = createSVGElement('pattern', { id: patternId, patternUnits: 'userSpaceOnUse', width: 6, height: 6, patternTransform: 'rotate(45)' }, defs);
+        createSVGElement('rect', { width: 6, height: 6, fill: '#ffffff' }, pattern);
+        createSVGElement('line', { x1: 0, y1: 0, x2: 0, y2: 6, stroke: '#bbbbbb', 'stroke-width': 2 }, pattern);
+
+        const plot = createSVGElement('g', { transform: `translate(${margin.left},${margin.top})` }, svg);
+        values.forEach((row, r) => row.forEach((value, c) => {
+            const empty = typeof value !== 'number' || isNaN(value);
+            const fill = empty ? '' : colorOf(value!);
+            const x = r * cellWidth;
+            const y = c * cellHeight;
+            const cell = createSVGElement('rect', {
+                x, y, width: cellWidth, height: cellHeight,
+                fill: empty ? `url(#${patternId})` : fill, stroke: '#ffffff', 'stroke-width': 0.5
+            }, plot);
+            if (options.onCellClick) {
+                cell.style.cursor = 'pointer';
+                cell.addEventListener('click', () => options.onCellClick!(r, c));
+            }
+            createSVGElement('title', {}, cell).textContent = `${rowLabels[r]} / ${colLabels[c]}: ${empty ? 'no data' : format(value!)}`;
+
+            if (config.heatmap.annotate && !empty && cellWidth > fontSize && cellHeight > fontSize) {
+                const text = createSVGElement('text', {
+                    x: x + cellWidth / 2, y: y + cellHeight / 2,
+                    'text-anchor': 'middle', 'dominant-baseline': 'central', fill: contrastTextColor(fill)
+                }, plot);
+                text.textContent = format(value!);
+            }
+        }));
+
+        // Axes : étiquettes des lignes (x, inclinées) et des colonnes (y)
+        rowLabels.forEach((label, r) => {
+            const x = margin.left + (r + 0.5) * cellWidth;
+            const y = margin.top + plotHeight + fontSize * 0.5;
+            createSVGElement('text', { x, y, 'text-anchor': 'end', 'dominant-baseline': 'central', transform: `rotate(-45 ${x} ${y})` }, svg)
+                .textContent = truncate(label);
+        });
+        colLabels.forEach((label, c) => {
+            createSVGElement('text', { x: margin.left - fontSize * 0.5, y: margin.top + (c + 0.5) * cellHeight, 'text-anchor': 'end', 'dominant-baseline': 'central' }, svg)
+                .textContent = truncate(label);
+        });
+        createSVGElement('text', { x: margin.left + plotWidth / 2, y: margin.top + plotHeight + margin.bottom - fontSize * 0.5, 'text-anchor': 'middle', 'font-weight': 'bold' }, svg)
+            .textContent = xLabel;
+        const yTitleX = fontSize;
+        const yTitleY = margin.top + plotHeight / 2;
+        createSVGElement('text', { x: yTitleX, y: yTitleY, 'text-anchor': 'middle', 'font-weight': 'bold', transform: `rotate(-90 ${yTitleX} ${yTitleY})` }, svg)
+            .textContent = yLabel;
+
+        // Légende : dégradé vertical de la palette (max en haut)
+        const gradientId = `${patternId}-legend`;
+        const gradient = createSVGElement('linearGradient', { id: gradientId, x1: 0, y1: 1, x2: 0, y2: 0 }, defs);
+        colorMap.stops.forEach((stop, i) => {
+            createSVGElement('stop', { offset: i / (colorMap.stops.length - 1), 'stop-color': stop }, gradient);
+        });
+        const legendX = margin.left + plotWidth + fontSize;
+        createSVGElement('rect', { x: legendX, y: margin.top, width: 12, height: plotHeight, fill: `url(#${gradientId})` }, svg);
+        const legendTicks = colorMap.diverging ? [max, config.heatmap.center, min] : [max, min];
+        legendTicks.forEach(tick => {
+            const y = margin.top + (max === min ? plotHeight / 2 : (max - tick) / (max - min) * plotHeight);
+            createSVGElement('text', { x: legendX + 16, y, 'dominant-baseline': 'central' }, svg).textContent = format(tick);
+        });
+
+        dataviz_area.appendChild(svg);
+    }
+
+    // Méthode pour afficher une matrice de corrélation (Correlation Matrix) entre toutes les features numériques
+    // Un clic sur une cellule émet CORRELATION_SELECT_EVENT pour ouvrir le nuage de points correspondant
+    private static _CorrelationMatrix(
+        dataviz_area: HTMLDivElement,
+        features: Array<string>,
+        values: Array<Array<number | null>>,
+        method: CorrelationMethod,
+        height: number,
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
+    ): never | void {
+        try {
+            if (features.length < 2) {
+                dataviz_area.innerText = 'At least two numeric features are needed for a correlation matrix.';
+                return;
+            }
+            const labels = features.map(f => axisLabels[f] ?? f);
+
+            // Palette divergente centrée sur 0, coefficients affichés dans les cellules
+            const colorMap = HEATMAP_COLOR_MAPS[config.heatmap.colorMap]?.diverging ? config.heatmap.colorMap : 'red-blue';
+            const matrixConfig: VizConfig = { ...config, heatmap: { ...config.heatmap, colorMap, annotate: true, center: 0 } };
+            const title = method === 'spearman' ? 'Spearman' : 'Pearson';
+
+            Dataviz._HeatmapSVG(dataviz_area, values, labels, labels, title, title, height, width, matrixConfig, {
+                domain: [-1, 1],
+                onCellClick: (row, col) => {
+                    if (row === col) return;
+                    dataviz_area.dispatchEvent(new CustomEvent(CORRELATION_SELECT_EVENT, {
+                        bubbles: true,
+                        detail: { xFeature: features[row], yFeature: features[col] }
+                    }));
+                }
+            });
+        } catch (error: unknown) {
+            handleError('_CorrelationMatrix', error);
+        }
+    }
+
+    // Méthode pour afficher des boîtes à moustaches (Box Plot) ou des violons (Violin Plot) d'une feature numérique,
+    // une distribution par catégorie de la feature de regroupement (ordre de l'énumération DMN)
+    private static _DistributionPlot(
+        dataviz_area: HTMLDivElement,
+        distributions: Array<DistributionData>,
+        valueFeature: string,
+        groupFeature: string,
+        kind: 'box' | 'violin',
+        height: number,
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
+    ): Array<string> {
+        try {
+            if (distributions.length === 0) {
+                dataviz_area.innerText = 'No data to display.';
+                return [];
+            }
+
+            const names = distributions.map(d => d.name);
+            const colors = getSeriesColors(names, config);
+            const stats = distributions.map(d => d.stats);
+
+            // Échelle verticale commune
+            const [min, max] = computeAxisDomain(([] as Array<number>).concat(...distributions.map(d => [...d.range, ...d.marked])))!;
+            const ticks = niceTicks(min, max);
+            const fontSize = config.general.fontSize;
+            const format = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 4 });
+            const margin = {
+                top: fontSize,
+                right: fontSize,
+                bottom: fontSize * 4,
+                left: Math.max(...ticks.map(t => format(t).length)) * fontSize * 0.6 + fontSize * 3
+            };
+            const plotWidth = width - margin.left - margin.right;
+            const plotHeight = height - margin.top - margin.bottom;
+            const y = (v: number) => margin.top + (max === min ? plotHeight / 2 : (max - v) / (max - min) * plotHeight);
+            const band = plotWidth / distributions.length;
+            const boxWidth = Math.min(band * 0.6, 80);
+
+            const svg = createSVGElement('svg', { width, height, viewBox: `0 0 ${width} ${height}`, 'font-size': fontSize, 'font-family': 'sans-serif' });
+            if (config.general.zoomToFit) svg.style.width = '100%';
+
+            // Axe des valeurs et grille
+            ticks.forEach(t => {
+                createSVGElement('line', { x1: margin.left, x2: margin.left + plotWidth, y1: y(t), y2: y(t), stroke: '#eeeeee' }, svg);
+                createSVGElement('text', { x: margin.left - fontSize * 0.5, y: y(t), 'text-anchor': 'end', 'dominant-baseline': 'central' }, svg)
+                    .textContent = format(t);
+            });
+            createSVGElement('line', { x1: margin.left, x2: margin.left, y1: margin.top, y2: margin.top + plotHeight, stroke: '#888888' }, svg);
+            const yTitleY = margin.top + plotHeight / 2;
+            createSVGElement('text', { x: fontSize, y: yTitleY, 'text-anchor': 'middle', 'font-weight': 'bold', transform: `rotate(-90 ${fontSize} ${yTitleY})` }, svg)
+                .textContent = axisLabels[valueFeature] ?? valueFeature;
+            if (groupFeature) {
+                createSVGElement('text', { x: margin.left + plotWidth / 2, y: height - fontSize * 0.5, 'text-anchor': 'middle', 'font-weight': 'bold' }, svg)
+                    .textContent = axisLabels[groupFeature] ?? groupFeature;
+            }
+
+            // Densités des violons, à la même échelle pour toutes les catégories
+            const densities = distributions.map(d => d.density);
+            const maxDensity = Math.max(...([] as Array<number>).concat(...densities.map(curve => curve.map(p => p.density))), 0) || 1;
+
+            distributions.forEach((distribution, i) => {
+                const s = stats[i];
+                const cx = margin.left + (i + 0.5) * band;
+                const group = createSVGElement('g', {}, svg);
+                createSVGElement('title', {}, group).textContent =
+                    `${distribution.name} (n = ${s.n})\nmax: ${format(s.upperWhisker)}\nQ3: ${format(s.q3)}\nmedian: ${format(s.median)}\nmean: ${format(s.mean)}\nQ1: ${format(s.q1)}\nmin: ${format(s.lowerWhisker)}`;
+
+                if (kind === 'violin') {
+                    const curve = densities[i];
+                    const halfWidth = (p: { density: number }) => p.density / maxDensity * band * 0.45;
+                    const right = curve.map(p => `${cx + halfWidth(p)},${y(p.value)}`);
+                    const left = [...curve].reverse().map(p => `${cx - halfWidth(p)},${y(p.value)}`);
+                    createSVGElement('path', { d: `M${[...right, ...left].join('L')}Z`, fill: colors[i], 'fill-opacity': 0.5, stroke: colors[i] }, group);
+                    // Boîte interquartile fine à l'intérieur du violon
+                    createSVGElement('rect', { x: cx - 4, y: y(s.q3), width: 8, height: Math.max(y(s.q1) - y(s.q3), 1), fill: '#333333' }, group);
+                    createSVGElement('line', { x1: cx, x2: cx, y1: y(s.upperWhisker), y2: y(s.lowerWhisker), stroke: '#333333' }, group);
+                    createSVGElement('circle', { cx, cy: y(s.median), r: 3, fill: '#ffffff' }, group);
+                } else {
+                    // Moustaches, boîte interquartile et médiane
+                    createSVGElement('line', { x1: cx, x2: cx, y1: y(s.upperWhisker), y2: y(s.q3), stroke: '#333333' }, group);
+                    createSVGElement('line', { x1: cx, x2: cx, y1: y(s.q1), y2: y(s.lowerWhisker), stroke: '#333333' }, group);
+                    [s.upperWhisker, s.lowerWhisker].forEach(v => {
+                        createSVGElement('line', { x1: cx - boxWidth / 4, x2: cx + boxWidth / 4, y1: y(v), y2: y(v), stroke: '#333333' }, group);
+                    });
+                    createSVGElement('rect', {
+                        x: cx - boxWidth / 2, y: y(s.q3), width: boxWidth, height: Math.max(y(s.q1) - y(s.q3), 1),
+                        fill: colors[i], 'fill-opacity': 0.6, stroke: '#333333'
+                    }, group);
+                    createSVGElement('line', { x1: cx - boxWidth / 2, x2: cx + boxWidth / 2, y1: y(s.median), y2: y(s.median), stroke: '#333333', 'stroke-width': 2 }, group);
+                }
+
+                // Moyenne (losange)
+                const my = y(s.mean);
+                createSVGElement('path', { d: `M${cx},${my - 5}L${cx + 5},${my}L${cx},${my + 5}L${cx - 5},${my}Z`, fill: '#ffffff', stroke: '#333333' }, group);
+
+                // Points au-delà des moustaches, puis outliers marqués par la chaîne de traitement
+                s.outliers.forEach(v => createSVGElement('circle', { cx, cy: y(v), r: 3, fill: 'none', stroke: '#333333' }, group));
+                distribution.marked.forEach(v => createSVGElement('circle', { cx, cy: y(v), r: 3, fill: config.general.outlierColor }, group));
+
+                // Étiquette de la catégorie
+                if (groupFeature) {
+                    createSVGElement('text', { x: cx, y: margin.top + plotHeight + fontSize * 1.2, 'text-anchor': 'middle' }, svg)
+                        .textContent = distribution.name.length > 20 ? distribution.name.slice(0, 19) + '…' : distribution.name;
+                }
+            });
+
+            dataviz_area.appendChild(svg);
+            return names;
+        } catch (error: unknown) {
+            handleError('_DistributionPlot', error);
+        }
+    }
+
     // Méthode pour afficher un Histogram
     private static _Histogram(
         dataviz_area: HTMLDivElement,
         data: Readonly<Array<Object>>,
         xFeature: string,
+        enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>,
         height: number,
-        width: number
+        width: number,
+        config: VizConfig = CONFIG,
+        axisLabels: Record<string, string> = {}
     ): never | void {
         try {
+            // Feature catégorielle : une barre de fréquence par catégorie, dans l'ordre de l'énumération
+            if (categoricalAxis(data, xFeature) !== null) {
+                Dataviz._BarchartSVG(dataviz_area, data, xFeature, "", "", 'simple', 'vertical', enumerations, height, width, config, axisLabels,
+                    config.general.selectable ? category => dispatchSelection(dataviz_area, [valueFilter(xFeature, category)]) : undefined);
+                return;
+            }
+
+            // Sélection d'un intervalle : les intervalles sont calculés ici et dessinés en SVG (une barre par intervalle)
+            const binned = config.general.selectable ? binNumericFeature(data, xFeature, config.histogram.maxBins) : null;
+            if (binned) {
+                const bins = { labels: binned.labels, ranges: binned.ranges };
+                Dataviz._BarchartSVG(dataviz_area, binned.data, xFeature, "", "", 'simple', 'vertical', new Map(enumerations).set(xFeature, binned.labels), height, width, config, axisLabels,
+                    // Une feature mise à l'échelle n'a pas les valeurs d'origine sur lesquelles portent les filtres
+                    label => dispatchSelection(dataviz_area, [xFeature in axisLabels ? null : valueFilter(xFeature, label, bins)]));
+                return;
+            }
+
             // Extraire les valeurs numériques valides pour l'histogramme
             const data_ = data
                 .map(datum => (datum as any)[xFeature])
@@ -1314,44 +4208,397 @@ export default class Dataviz {
 
             // Rendu de l'histogramme
             tfvis.render.histogram(dataviz_area, data_, {
-                xLabel: xFeature,
+                xLabel: axisLabels[xFeature] ?? xFeature,
                 yLabel: 'Frequency',
                 width,
                 height,
-                fontSize: CONFIG.general.fontSize,
-                zoomToFit: CONFIG.general.zoomToFit,
+                fontSize: config.general.fontSize,
+                zoomToFit: config.general.zoomToFit,
                 //xType: CONFIG.general.xType,
                 //yType: CONFIG.general.yType,
-                maxBins: CONFIG.histogram.maxBins,
-                color: CONFIG.general.color,
-                stats: CONFIG.histogram.stats
+                maxBins: config.histogram.maxBins,
+                color: config.general.color,
+                stats: config.histogram.stats
             });
         } catch (error: unknown) {
             handleError('_Histogram', error);
         }
     }
 
-    // Méthode pour afficher un tableau (Table)
+    // Méthode pour afficher un tableau croisé (Pivot Table), avec totaux, pourcentages et en-têtes triables
+    private static _PivotTable(
+        dataviz_area: HTMLDivElement,
+        pivot: PivotData,
+        rowFeature: string,
+        colFeature: string,
+        valueFeature: string,
+        options: PivotOptions,
+        config: VizConfig = CONFIG
+    ): never | void {
+        try {
+            const method = options.aggregation ?? 'sum';
+            const percentMode = options.percentMode ?? 'none';
+            const showTotals = options.showTotals ?? true;
+
+            // Valeur affichée d'une cellule selon le mode de pourcentage
+            const display = (value: number | null, rowTotal: number | null, colTotal: number | null): { text: string, sortValue: number } => {
+                if (value == null) return { text: '', sortValue: -Infinity };
+                let shown = value;
+                const base = percentMode === 'row' ? rowTotal : percentMode === 'column' ? colTotal : percentMode === 'total' ? pivot.grandTotal : null;
+                if (percentMode !== 'none') shown = base ? (value / base) * 100 : NaN;
+                const text = isNaN(shown) ? '' : shown.toLocaleString(undefined, { maximumFractionDigits: 2 }) + (percentMode !== 'none' ? ' %' : '');
+                return { text, sortValue: shown };
+            };
+
+            const table = document.createElement('table');
+            table.className = 'pivot-table';
+            table.style.fontSize = `${config.general.fontSize}px`;
+
+            const caption = document.createElement('caption');
+            caption.innerText = `${method}(${valueFeature || '*'}) by ${rowFeature} × ${colFeature}` + (percentMode !== 'none' ? ` — % of ${percentMode}` : '');
+            table.appendChild(caption);
+
+            // En-tête : feature ligne \ feature colonne, puis une colonne par valeur
+            const thead = table.createTHead();
+            const headerRow = thead.insertRow();
+            const headers = [`${rowFeature} \\ ${colFeature}`, ...pivot.colLabels.map(String)];
+            if (showTotals) headers.push('Total');
+            headers.forEach(text => {
+                const th = document.createElement('th');
+                th.innerText = text;
+                headerRow.appendChild(th);
+            });
+
+            const tbody = table.createTBody();
+            pivot.rowLabels.forEach((rowLabel, r) => {
+                const tr = tbody.insertRow();
+                const th = document.createElement('th');
+                th.innerText = String(rowLabel);
+                th.dataset.sortValue = String(r); // Ordre d'origine (énumération)
+                tr.appendChild(th);
+
+                pivot.cells[r].forEach((value, c) => {
+                    const cell = display(value, pivot.rowTotals[r], pivot.colTotals[c]);
+                    const td = tr.insertCell();
+                    td.innerText = cell.text;
+                    td.dataset.sortValue = String(cell.sortValue);
+                    if (value == null) td.className = 'pivot-empty';
+                });
+                if (showTotals) {
+                    const cell = display(pivot.rowTotals[r], pivot.rowTotals[r], pivot.grandTotal);
+                    const td = tr.insertCell();
+                    td.innerText = cell.text;
+                    td.dataset.sortValue = String(cell.sortValue);
+                    td.className = 'pivot-total';
+                }
+            });
+
+            if (showTotals) {
+                const tfoot = table.createTFoot();
+                const tr = tfoot.insertRow();
+                const th = document.createElement('th');
+                th.innerText = 'Total';
+                tr.appendChild(th);
+                pivot.colTotals.forEach(total => {
+                    const td = tr.insertCell();
+                    td.innerText = display(total, pivot.grandTotal, total).text;
+                    td.className = 'pivot-total';
+                });
+                const td = tr.insertCell();
+                td.innerText = display(pivot.grandTotal, pivot.grandTotal, pivot.grandTotal).text;
+                td.className = 'pivot-total';
+            }
+
+            // Tri des lignes en cliquant sur un en-tête de colonne (ascendant puis descendant)
+            Array.from(headerRow.cells).forEach((th, index) => {
+                th.classList.add('sortable');
+                th.onclick = () => {
+                    const order = th.dataset.order === 'asc' ? 'desc' : 'asc';
+                    Array.from(headerRow.cells).forEach(h => {
+                        delete h.dataset.order;
+                        h.classList.remove('sorted-asc', 'sorted-desc');
+                    });
+                    th.dataset.order = order;
+                    th.classList.add(order === 'asc' ? 'sorted-asc' : 'sorted-desc');
+
+                    const rows = Array.from(tbody.rows);
+                    rows.sort((a, b) => {
+                        const diff = Number(a.cells[index].dataset.sortValue) - Number(b.cells[index].dataset.sortValue);
+                        return order === 'asc' ? diff : -diff;
+                    });
+                    rows.forEach(row => tbody.appendChild(row));
+                };
+            });
+
+            dataviz_area.appendChild(table);
+        } catch (error: unknown) {
+            handleError('_PivotTable', error);
+        }
+    }
+
+    // Méthode pour afficher un tableau (Table) : recherche, pagination, choix et ordre des colonnes,
+    // tri multi-colonnes en cliquant sur les en-têtes, format des nombres et mise en forme conditionnelle
+    // L'état de la vue (config.table) est modifié en place : il est conservé d'un rendu à l'autre et enregistré dans les presets
     private static _Table(
         dataviz_area: HTMLDivElement,
         data: Readonly<Array<Object>>,
-        features: Readonly<Array<string>>
+        features: Readonly<Array<string>>,
+        config: VizConfig = CONFIG
     ): never | void {
         try {
-            // Construire les headers pour le tableau (tous les features)
-            const headers = features.map(feature => feature);
-
-            // Construire les valeurs pour chaque ligne
-            const values = data.map(datum =>
-                features.map(feature => (datum as any)[feature] ?? 'N/A') // Valeur par défaut 'N/A' si manquante
-            );
+            const state = config.table;
+            const hasOutliers = data.some(datum => (datum as any)[OUTLIER_FLAG]);
+            let page = 0;
+
+            // Colonnes affichées, dans l'ordre choisi (toutes par défaut)
+            const visibleColumns = (): Array<string> => {
+                const chosen = state.columns.filter(c => features.includes(c));
+                return chosen.length > 0 ? chosen : [...features];
+            };
+
+            const toolbar = document.createElement('div');
+            toolbar.className = 'table-toolbar';
+            const tableContainer = document.createElement('div');
+            const pager = document.createElement('div');
+            pager.className = 'table-pager';
+            dataviz_area.append(toolbar, tableContainer, pager);
+
+            // Recherche globale sur les colonnes affichées
+            const searchInput = document.createElement('input');
+            searchInput.type = 'search';
+            searchInput.placeholder = 'Search…';
+            searchInput.value = state.search;
+            searchInput.addEventListener('input', () => {
+                state.search = searchInput.value;
+                page = 0;
+                render();
+            });
 
-            // Rendu du tableau
-            tfvis.render.table(dataviz_area, { headers, values }, {
-                fontSize: CONFIG.general.fontSize
+            // Taille de page (0 : toutes les lignes)
+            const pageSizeSelect = document.createElement('select');
+            [10, 25, 50, 100, 0].forEach(size => {
+                const option = document.createElement('option');
+                option.value = String(size);
+                option.text = size ? `${size} rows` : 'All rows';
+                pageSizeSelect.appendChild(option);
             });
+            pageSizeSelect.value = String(state.pageSize);
+            pageSizeSelect.addEventListener('change', () => {
+                state.pageSize = parseInt(pageSizeSelect.value);
+                page = 0;
+                render();
+            });
+
+            // Choix et ordre des colonnes
+            const columnsChooser = document.createElement('details');
+            const summary = document.createElement('summary');
+            summary.innerText = 'Columns';
+            columnsChooser.appendChild(summary);
+            const columnsList = document.createElement('div');
+            columnsChooser.appendChild(columnsList);
+            const renderColumnsChooser = () => {
+                columnsList.innerHTML = '';
+                const visible = visibleColumns();
+                const ordered = [...visible, ...features.filter(f => !visible.includes(f))];
+                ordered.forEach((column, i) => {
+                    const row = document.createElement('div');
+                    row.className = 'table-column-choice';
+                    const checkbox = document.createElement('input');
+                    checkbox.type = 'checkbox';
+                    checkbox.checked = visible.includes(column);
+                    checkbox.addEventListener('change', () => {
+                        const next = visibleColumns().filter(c => c !== column);
+                        if (checkbox.checked) next.splice(ordered.slice(0, i).filter(c => next.includes(c)).length, 0, column);
+                        if (next.length === 0) return; // Au moins une colonne
+                        state.columns = next;
+                        renderColumnsChooser();
+                        render();
+                    });
+                    const label = document.createElement('span');
+                    label.innerText = column;
+                    row.append(checkbox, label);
+
+                    // Déplacement d'une colonne visible
+                    const move = (delta: number) => {
+                        const next = visibleColumns();
+                        const from = next.indexOf(column);
+                        const to = from + delta;
+                        if (from < 0 || to < 0 || to >= next.length) return;
+                        [next[from], next[to]] = [next[to], next[from]];
+                        state.columns = next;
+                        renderColumnsChooser();
+                        render();
+                    };
+                    if (checkbox.checked) {
+                        createButton('↑', row, () => move(-1), 'table-move-button');
+                        createButton('↓', row, () => move(1), 'table-move-button');
+                    }
+                    columnsList.appendChild(row);
+                });
+            };
+            renderColumnsChooser();
+            toolbar.append(searchInput, pageSizeSelect, columnsChooser);
+
+            // Clic : trie sur cette colonne (asc, desc, aucun) ; Maj + clic : ajoute/modifie une clé secondaire
+            const onHeaderClick = (column: string, event: MouseEvent) => {
+                const index = state.sortKeys.findIndex(k => k.column === column);
+                const current = state.sortKeys[index];
+                const nextOrder = !current ? 'asc' : current.order === 'asc' ? 'desc' : null;
+                if (event.shiftKey) {
+                    if (!current) state.sortKeys.push({ column, order: 'asc' });
+                    else if (nextOrder) current.order = nextOrder;
+                    else state.sortKeys.splice(index, 1);
+                } else {
+                    const soleKey = state.sortKeys.length === 1 && current;
+                    state.sortKeys = soleKey && !nextOrder ? [] : [{ column, order: soleKey ? nextOrder! : 'asc' }];
+                }
+                render();
+            };
+
+            const render = () => {
+                const columns = visibleColumns();
+                const query = state.search.trim().toLowerCase();
+                let rows = query
+                    ? data.filter(datum => columns.some(c => String((datum as any)[c] ?? '').toLowerCase().includes(query)))
+                    : [...data];
+                rows = sortDataByKeys(rows as Array<Record<string, any>>, state.sortKeys);
+
+                // Étendue des colonnes mises en forme par une échelle de couleurs
+                const scales = new Map<string, [number, number]>();
+                columns.forEach(column => {
+                    if (state.formats[column]?.conditional !== 'scale') return;
+                    const domain = computeMinMax(rows.map(d => (d as any)[column]).filter(v => typeof v === 'number' && !isNaN(v)));
+                    if (domain) scales.set(column, domain);
+                });
+
+                const pageSize = state.pageSize > 0 ? state.pageSize : rows.length || 1;
+                const pageCount = Math.max(Math.ceil(rows.length / pageSize), 1);
+                page = Math.min(page, pageCount - 1);
+                const pageRows = rows.slice(page * pageSize, (page + 1) * pageSize);
+
+                const table = document.createElement('table');
+                table.className = 'data-table';
+                table.style.fontSize = `${config.general.fontSize}px`;
+
+                const headerRow = table.createTHead().insertRow();
+                columns.forEach(column => {
+                    const th = document.createElement('th');
+                    th.className = 'sortable';
+                    th.title = 'Click to sort, Shift+click to add a sort key';
+                    const keyIndex = state.sortKeys.findIndex(k => k.column === column);
+                    const key = state.sortKeys[keyIndex];
+                    th.innerText = column + (key ? ` ${key.order === 'asc' ? '▲' : '▼'}${state.sortKeys.length > 1 ? keyIndex + 1 : ''}` : '');
+                    th.addEventListener('click', event => onHeaderClick(column, event));
+                    headerRow.appendChild(th);
+                });
+                if (hasOutliers) {
+                    const th = document.createElement('th');
+                    th.innerText = OUTLIER_SERIES_NAME;
+                    headerRow.appendChild(th);
+                }
+
+                const tbody = table.createTBody();
+                pageRows.forEach(datum => {
+                    const tr = tbody.insertRow();
+                    if ((datum as any)[OUTLIER_FLAG]) tr.classList.add('outlier-row');
+                    columns.forEach(column => {
+                        const value = (datum as any)[column];
+                        const td = tr.insertCell();
+                        if (isMissingValue(value)) {
+                            // Mise en évidence des valeurs manquantes conservées
+                            td.innerText = MISSING_VALUE_MARKER;
+                            td.className = 'missing-cell';
+                            return;
+                        }
+                        const format = state.formats[column];
+                        td.innerText = formatCellValue(value, format);
+                        if (typeof value !== 'number') return;
+                        td.className = 'numeric-cell';
+
+                        // Mise en forme conditionnelle
+                        const domain = scales.get(column);
+                        if (domain) {
+                            const stops = (HEATMAP_COLOR_MAPS[format?.colorMap ?? 'blues'] ?? HEATMAP_COLOR_MAPS.blues).stops;
+                            const background = interpolateColor(stops, domain[1] === domain[0] ? 0.5 : (value - domain[0]) / (domain[1] - domain[0]));
+                            td.style.backgroundColor = background;
+                            td.style.color = contrastTextColor(background);
+                        } else if (format?.conditional === 'threshold') {
+                            td.classList.add(value >= (format.threshold ?? 0) ? 'above-threshold' : 'below-threshold');
+                        }
+                    });
+                    if (hasOutliers) tr.insertCell().innerText = (datum as any)[OUTLIER_FLAG] ? 'yes' : '';
+                });
+
+                tableContainer.innerHTML = '';
+                tableContainer.appendChild(table);
+
+                // Pagination
+                pager.innerHTML = '';
+                const info = document.createElement('span');
+                info.innerText = rows.length === 0
+                    ? 'No rows'
+                    : `Rows ${page * pageSize + 1}–${Math.min((page + 1) * pageSize, rows.length)} of ${rows.length}` + (rows.length < data.length ? ` (filtered from ${data.length})` : '');
+                const previous = createButton('‹ Prev', pager, () => { page--; render(); }, 'table-move-button');
+                previous.disabled = page === 0;
+                pager.appendChild(info);
+                const next = createButton('Next ›', pager, () => { page++; render(); }, 'table-move-button');
+                next.disabled = page >= pageCount - 1;
+            };
+
+            render();
         } catch (error: unknown) {
             handleError('_Table', error);
         }
     }
+
+    // Méthode pour afficher le résumé statistique (Summary) : une ligne par feature
+    private static _Summary(
+        dataviz_area: HTMLDivElement,
+        data: Readonly<Array<Object>>,
+        summaries: Array<FeatureSummary>,
+        config: VizConfig = CONFIG
+    ): never | void {
+        try {
+            const format = (v: number | undefined) => v === undefined ? '' : Number(v.toPrecision(4)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+            const headers = ['Feature', 'Type', 'Count', 'Missing', 'Distinct', 'Min', 'Q1', 'Median', 'Q3', 'Max', 'Mean', 'Std dev', 'Top values'];
+
+            const table = document.createElement('table');
+            table.className = 'data-table summary-table';
+            table.style.fontSize = `${config.general.fontSize}px`;
+            table.createCaption().innerText = `${data.length} row(s)`;
+
+            const headerRow = table.createTHead().insertRow();
+            headers.forEach(header => {
+                const th = document.createElement('th');
+                th.innerText = header;
+                headerRow.appendChild(th);
+            });
+
+            const tbody = table.createTBody();
+            summaries.forEach(summary => {
+                const tr = tbody.insertRow();
+                const cells = [
+                    summary.feature, summary.type,
+                    String(summary.count), String(summary.missing), String(summary.distinct),
+                    format(summary.min), format(summary.q1), format(summary.median), format(summary.q3), format(summary.max),
+                    format(summary.mean), format(summary.std)
+                ];
+                cells.forEach((text, i) => {
+                    const td = tr.insertCell();
+                    td.innerText = text;
+                    if (i >= 2) td.className = 'numeric-cell';
+                });
+                // Colonne entièrement vide : mise en évidence comme une valeur manquante
+                if (summary.count === 0) tr.cells[3].classList.add('missing-cell');
+
+                tr.insertCell().innerText = (summary.topValues ?? [])
+                    .map(({ value, count }) => `${value} (${count})`)
+                    .join(', ');
+            });
+
+            dataviz_area.appendChild(table);
+        } catch (error: unknown) {
+            handleError('_Summary', error);
+        }
+    }
 }
@@ -0,0 +1,2030 @@
+// Chaîne de traitement des données de Dataviz, sans interface ni dépendance vers l'hôte :
+// utilisée par Dataviz.ts et par le Web Worker (DatavizWorker.ts), qui n'importe que ce module
+
+/**********************************
+ * Utilitaires généraux
+ **********************************/
+
+// Fonction de tri générique (numérique ou lexicographique)
+export function sortFunction(a: any, b: any): number {
+    if (!isNaN(a) && !isNaN(b)) {
+        return Number(a) - Number(b); // Tri numérique
+    } else {
+        return String(a).localeCompare(String(b)); // Tri lexicographique
+    }
+}
+
+// Ordonner des catégories selon la définition de l'énumération DMN (sinon tri générique)
+export function orderCategories(
+    values: Array<any>,
+    enumeration?: Array<boolean | number | string> | null
+): Array<any> {
+    const distinctValues = Array.from(new Set(values));
+    if (!enumeration) return distinctValues.sort(sortFunction);
+
+    const rank = new Map(enumeration.map((v, i) => [String(v), i]));
+    return distinctValues.sort((a, b) => {
+        const rankA = rank.get(String(a));
+        const rankB = rank.get(String(b));
+        if (rankA !== undefined && rankB !== undefined) return rankA - rankB;
+        if (rankA !== undefined) return -1; // Les valeurs déclarées passent avant les autres
+        if (rankB !== undefined) return 1;
+        return sortFunction(a, b);
+    });
+}
+
+// Catégories d'une feature complétées par toutes les valeurs déclarées dans l'énumération (même sans ligne)
+function declaredCategories(
+    values: Array<any>,
+    enumeration?: Array<boolean | number | string> | null
+): Array<any> {
+    const present = new Set(values.map(String));
+    const missing = (enumeration ?? []).filter(v => !present.has(String(v)));
+    return orderCategories([...values, ...missing], enumeration);
+}
+
+// Catégories d'une feature placée sur l'axe X quand elle n'est pas numérique (chaînes, booléens, énumérations) ;
+// null si toutes ses valeurs sont des nombres (axe quantitatif)
+export function categoricalAxis(
+    data: Readonly<Array<Object>>,
+    feature: string,
+    enumeration?: Array<boolean | number | string> | null
+): Array<any> | null {
+    const values = data.map(d => (d as any)[feature]).filter(v => !isMissingValue(v));
+    if (values.every(v => Number.isFinite(toNumericValue(v)))) return null;
+    return declaredCategories(values, enumeration);
+}
+
+// Convertit une valeur en nombre pour un axe quantitatif (nombres, chaînes numériques, dates)
+function toNumericValue(value: any): number {
+    if (typeof value === 'number') return value;
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'string' && value.trim() !== '') return Number(value);
+    return NaN;
+}
+
+// Calcule [min, max] en un seul parcours (sans Math.min(...values) qui déborde la pile sur de gros tableaux)
+export function computeMinMax(values: Iterable<number>): [number, number] | undefined {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of values) {
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+    return min === Infinity ? undefined : [min, max];
+}
+
+// Répartit des éléments selon une clé en un seul parcours (ordre d'apparition des clés et des éléments conservé)
+function partitionBy<T>(items: ReadonlyArray<T>, key: (item: T) => any): Map<any, Array<T>> {
+    const parts = new Map<any, Array<T>>();
+    items.forEach(item => {
+        const k = key(item);
+        const part = parts.get(k);
+        if (part) {
+            part.push(item);
+        } else {
+            parts.set(k, [item]);
+        }
+    });
+    return parts;
+}
+
+// Colonnes déjà extraites de chaque tableau de lignes (oubliées quand appendRows modifie le tableau en place)
+const columnCache = new WeakMap<ReadonlyArray<Object>, Map<string, Array<any>>>();
+
+// Valeurs d'une colonne, extraites une seule fois par tableau de lignes (tableau partagé : ne pas le modifier)
+function columnValues(data: ReadonlyArray<Object>, feature: string): Array<any> {
+    let columns = columnCache.get(data);
+    if (!columns) {
+        columns = new Map();
+        columnCache.set(data, columns);
+    }
+    let values = columns.get(feature);
+    if (!values) {
+        values = data.map(d => (d as any)[feature]);
+        columns.set(feature, values);
+    }
+    return values;
+}
+
+/**********************************
+ * Fonctions de validation et de transformation des données
+ **********************************/
+
+// Identifier les colonnes numériques dans les données
+export function identifyNumericColumns(
+    data: Readonly<Array<Object>>,
+    features: Readonly<Array<string>>,
+    types: Readonly<Array<string>>
+): Array<string> {
+    return features.filter((feature, index) => {
+        // On check si c’est un type DMN “number” ou si c’est un enum qui *contient* des nombres
+        if (types[index] === 'number') {
+            // Alors c’est direct numeric
+            return true;
+        } else if (types[index] === 'enum') {
+            // Vérif supplémentaire : si *tous* les enregistrements sont des nombres
+            return data.every(datum => typeof (datum as any)[feature] === 'number');
+        }
+        return false;
+    });
+}
+
+// Clé de tri d'un tableau
+export interface SortKey {
+    column: string;
+    order: 'asc' | 'desc';
+}
+
+// Comparaison de deux valeurs de types éventuellement différents :
+// nombres entre eux, puis nombres avant les autres valeurs, comparées comme chaînes (ordre naturel "2" < "10")
+function compareValues(a: any, b: any): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'number') return -1;
+    if (typeof b === 'number') return 1;
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+// Tri sur plusieurs clés successives ; les valeurs manquantes restent en fin de tableau quel que soit l'ordre
+export function sortDataByKeys(data: Array<Record<string, any>>, keys: Array<SortKey>): Array<Record<string, any>> {
+    if (!data || data.length === 0 || keys.length === 0) return data;
+
+    return data.slice().sort((a, b) => {
+        for (const { column, order } of keys) {
+            const missingA = isMissingValue(a[column]);
+            const missingB = isMissingValue(b[column]);
+            if (missingA || missingB) {
+                if (missingA !== missingB) return missingA ? 1 : -1;
+                continue;
+            }
+            const diff = compareValues(a[column], b[column]);
+            if (diff !== 0) return order === 'asc' ? diff : -diff;
+        }
+        return 0;
+    });
+}
+
+// Format d'affichage d'une colonne numérique du tableau
+export type NumberStyle = 'plain' | 'thousands' | 'percent' | 'scientific';
+
+export interface ColumnFormat {
+    decimals?: number;
+    style?: NumberStyle;
+    conditional?: 'none' | 'scale' | 'threshold';
+    colorMap?: string;    // Palette de l'échelle de couleurs
+    threshold?: number;   // Seuil : valeurs au-dessus / en dessous mises en évidence
+}
+
+// Vue du tableau (Table) : pagination, colonnes affichées, tri multi-colonnes, recherche et formats par colonne
+export interface TableView {
+    pageSize: number;         // 0 : toutes les lignes
+    columns: Array<string>;   // Colonnes affichées et leur ordre (vide : toutes)
+    sortKeys: Array<SortKey>;
+    search: string;
+    formats: Record<string, ColumnFormat>;
+}
+
+// Texte d'une cellule selon le format de sa colonne (valeur brute si pas de format ou valeur non numérique)
+export function formatCellValue(value: any, format?: ColumnFormat): string {
+    if (typeof value !== 'number' || !format || (format.decimals === undefined && !format.style)) return String(value);
+    const decimals = format.decimals;
+    switch (format.style) {
+        case 'thousands':
+            return value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals ?? 20 });
+        case 'percent':
+            return (value * 100).toFixed(decimals ?? 1) + ' %';
+        case 'scientific':
+            return value.toExponential(decimals);
+        default:
+            return decimals === undefined ? String(value) : value.toFixed(decimals);
+    }
+}
+
+// Quantile p (0..1) d'un tableau déjà trié, avec interpolation linéaire
+function quantile(sortedValues: Array<number>, p: number): number {
+    if (sortedValues.length === 0) return NaN;
+    const pos = (sortedValues.length - 1) * p;
+    const lower = Math.floor(pos);
+    const upper = Math.ceil(pos);
+    return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (pos - lower);
+}
+
+// Méthodes de normalisation / mise à l'échelle
+export type ScalingMethod = 'min-max' | 'z-score' | 'robust' | 'log' | 'log1p' | 'percent-of-total';
+
+// Libellé court de la transformation, ajouté au nom de l'axe
+export const SCALING_LABELS: Record<ScalingMethod, string> = {
+    'min-max': 'min-max',
+    'z-score': 'z-score',
+    'robust': 'robust',
+    'log': 'log',
+    'log1p': 'log1p',
+    'percent-of-total': '% of total'
+};
+
+// Construit la fonction de transformation d'une colonne (null si la colonne ne peut pas être transformée)
+function buildScaler(values: Array<number>, method: ScalingMethod): ((v: number) => number | null) | null {
+    switch (method) {
+        case 'min-max': {
+            const domain = computeMinMax(values);
+            if (!domain || domain[0] === domain[1]) return null;
+            const [min, max] = domain;
+            return v => (v - min) / (max - min);
+        }
+        case 'z-score': {
+            if (values.length === 0) return null;
+            const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+            const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+            if (std === 0) return null;
+            return v => (v - mean) / std;
+        }
+        case 'robust': {
+            const sortedValues = [...values].sort((a, b) => a - b);
+            const median = quantile(sortedValues, 0.5);
+            const IQR = quantile(sortedValues, 0.75) - quantile(sortedValues, 0.25);
+            if (!IQR) return null;
+            return v => (v - median) / IQR;
+        }
+        case 'log':
+            // Non défini pour v <= 0 : la valeur devient manquante
+            return v => v > 0 ? Math.log(v) : null;
+        case 'log1p':
+            return v => v > -1 ? Math.log1p(v) : null;
+        case 'percent-of-total': {
+            const total = values.reduce((sum, v) => sum + v, 0);
+            if (total === 0) return null;
+            return v => (v / total) * 100;
+        }
+    }
+}
+
+// Normaliser les colonnes numériques (min-max par défaut, ou méthode choisie, éventuellement par colonne)
+// Retourne la méthode effectivement appliquée à chaque colonne ; les lignes transformées sont des copies
+function applyNormalization(
+    data: Readonly<Array<Object>>,
+    numericFeatures: Array<string>,
+    method: ScalingMethod | 'none' = 'min-max',
+    perColumn: Record<string, ScalingMethod | 'none'> = {}
+): { data: Readonly<Array<Object>>, applied: Record<string, ScalingMethod> } {
+    const applied: Record<string, ScalingMethod> = {};
+    const scalers = new Map<string, (v: number) => number | null>();
+
+    numericFeatures.forEach(feature => {
+        const featureMethod = perColumn[feature] ?? method;
+        if (featureMethod === 'none') return;
+
+        // Les valeurs manquantes sont ignorées (et laissées telles quelles)
+        const values = columnValues(data, feature).filter(v => !isMissingValue(v));
+        const scaler = buildScaler(values, featureMethod);
+        if (!scaler) return;
+        scalers.set(feature, scaler);
+        applied[feature] = featureMethod;
+    });
+    if (scalers.size === 0) return { data, applied };
+
+    // Une seule copie de chaque ligne pour toutes les colonnes transformées
+    const normalizedData = data.map(datum => {
+        const row: Record<string, any> = { ...datum };
+        scalers.forEach((scaler, feature) => {
+            if (!isMissingValue(row[feature])) row[feature] = scaler(row[feature]);
+        });
+        return row;
+    });
+
+    return { data: normalizedData, applied };
+}
+
+// Méthodes de détection des valeurs aberrantes
+export type OutlierMethod = 'iqr' | 'z-score' | 'modified-z' | 'percentile';
+
+// Propriété ajoutée aux lignes aberrantes conservées (mode "show, don't drop")
+export const OUTLIER_FLAG = '__outlier';
+
+export const OUTLIER_SERIES_NAME = 'Outliers';
+
+// Détecteurs : à partir des valeurs triées d'une colonne et du seuil, construisent le test "est aberrant"
+export const OUTLIER_DETECTORS: Record<OutlierMethod, {
+    defaultThreshold: number;
+    build: (sortedValues: Array<number>, threshold: number) => (v: number) => boolean;
+}> = {
+    // En dehors de [Q1 - k.IQR, Q3 + k.IQR]
+    'iqr': {
+        defaultThreshold: 1.5,
+        build: (sortedValues, threshold) => {
+            const Q1 = quantile(sortedValues, 0.25);
+            const Q3 = quantile(sortedValues, 0.75);
+            const IQR = Q3 - Q1;
+            return v => v < Q1 - threshold * IQR || v > Q3 + threshold * IQR;
+        }
+    },
+    // |v - moyenne| > k écarts-types
+    'z-score': {
+        defaultThreshold: 3,
+        build: (sortedValues, threshold) => {
+            const mean = sortedValues.reduce((sum, v) => sum + v, 0) / sortedValues.length;
+            const std = Math.sqrt(sortedValues.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sortedValues.length);
+            return v => std > 0 && Math.abs(v - mean) / std > threshold;
+        }
+    },
+    // Score z modifié (Iglewicz & Hoaglin) : 0.6745 |v - médiane| / MAD > k
+    'modified-z': {
+        defaultThreshold: 3.5,
+        build: (sortedValues, threshold) => {
+            const median = quantile(sortedValues, 0.5);
+            const deviations = sortedValues.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+            const MAD = quantile(deviations, 0.5);
+            return v => MAD > 0 && 0.6745 * Math.abs(v - median) / MAD > threshold;
+        }
+    },
+    // En dehors des percentiles [k %, 100 - k %]
+    'percentile': {
+        defaultThreshold: 1,
+        build: (sortedValues, threshold) => {
+            const lowerBound = quantile(sortedValues, threshold / 100);
+            const upperBound = quantile(sortedValues, 1 - threshold / 100);
+            return v => v < lowerBound || v > upperBound;
+        }
+    }
+};
+
+// Repère les lignes aberrantes (par index) : une ligne l'est si l'une des colonnes l'est
+function detectOutliers(
+    data: Readonly<Array<Object>>,
+    numericFeatures: Array<string>,
+    threshold: number,
+    method: OutlierMethod
+): Set<number> {
+    const outliers = new Set<number>();
+    const detector = OUTLIER_DETECTORS[method] ?? OUTLIER_DETECTORS['iqr'];
+
+    numericFeatures.forEach(feature => {
+        // Extraction des valeurs associées à la caractéristique (hors valeurs manquantes)
+        const values = columnValues(data, feature);
+        const sortedValues = values
+            .filter(v => !isMissingValue(v))
+            .sort((a, b) => a - b);
+        if (sortedValues.length === 0) return;
+
+        const isOutlier = detector.build(sortedValues, threshold);
+        values.forEach((value, i) => {
+            if (!isMissingValue(value) && isOutlier(value)) outliers.add(i);
+        });
+    });
+
+    return outliers;
+}
+
+// Retirer les valeurs aberrantes (outliers) d'un ensemble de données
+function removeOutliers(
+    data: Readonly<Array<Object>>,
+    numericFeatures: Array<string>,
+    threshold: number = 1.5,
+    method: OutlierMethod = 'iqr'
+): Array<Object> {
+    const outliers = detectOutliers(data, numericFeatures, threshold, method);
+    return data.filter((_, i) => !outliers.has(i));
+}
+
+// Marquer les valeurs aberrantes sans les retirer : les lignes marquées sont des copies portant OUTLIER_FLAG
+function markOutliers(
+    data: Readonly<Array<Object>>,
+    numericFeatures: Array<string>,
+    threshold: number = 1.5,
+    method: OutlierMethod = 'iqr'
+): { data: Array<Object>, marked: number } {
+    const outliers = detectOutliers(data, numericFeatures, threshold, method);
+    return {
+        data: data.map((d, i) => outliers.has(i) ? { ...d, [OUTLIER_FLAG]: true } : d),
+        marked: outliers.size
+    };
+}
+
+/**********************************
+ * Valeurs manquantes
+ **********************************/
+
+// Politiques de traitement des valeurs manquantes
+export type MissingValuePolicy = 'keep' | 'drop' | 'constant' | 'mean' | 'median' | 'mode' | 'forward-fill';
+
+// Texte affiché à la place d'une valeur manquante (et mis en évidence dans le tableau)
+export const MISSING_VALUE_MARKER = 'N/A';
+
+// Une valeur est manquante si elle est absente, nulle, vide ou NaN
+export function isMissingValue(value: any): boolean {
+    return value == null || value === '' || (typeof value === 'number' && isNaN(value));
+}
+
+// Valeur de remplacement d'une colonne selon la politique choisie
+function computeFillValue(
+    values: Array<any>,
+    policy: 'constant' | 'mean' | 'median' | 'mode',
+    isNumeric: boolean,
+    constant: string
+): any {
+    switch (policy) {
+        case 'constant':
+            return isNumeric && constant.trim() !== '' && !isNaN(Number(constant)) ? Number(constant) : constant;
+        case 'mean':
+            if (!isNumeric || values.length === 0) return undefined;
+            return values.reduce((sum, v) => sum + v, 0) / values.length;
+        case 'median': {
+            if (!isNumeric || values.length === 0) return undefined;
+            const sortedVals = [...values].sort((a, b) => a - b);
+            const mid = Math.floor(sortedVals.length / 2);
+            return (sortedVals.length % 2 === 0) ? (sortedVals[mid - 1] + sortedVals[mid]) / 2 : sortedVals[mid];
+        }
+        case 'mode': {
+            const counts = new Map<any, number>();
+            let mode: any = undefined;
+            let best = 0;
+            values.forEach(v => {
+                const c = (counts.get(v) ?? 0) + 1;
+                counts.set(v, c);
+                if (c > best) {
+                    best = c;
+                    mode = v;
+                }
+            });
+            return mode;
+        }
+    }
+}
+
+// Applique la politique de valeurs manquantes sur les colonnes utilisées par le graphique
+// Retourne les données traitées (les lignes complétées sont des copies) et le nombre de lignes concernées
+function handleMissingValues(
+    data: Readonly<Array<Object>>,
+    columns: Array<string>,
+    numericFeatures: Array<string>,
+    policy: MissingValuePolicy,
+    options: { fillValue?: string; orderFeature?: string } = {}
+): { data: Readonly<Array<Object>>, affectedRows: number } {
+    const hasMissing = (d: Object) => columns.some(col => isMissingValue((d as any)[col]));
+    const affectedRows = data.filter(hasMissing).length;
+    if (affectedRows === 0) return { data, affectedRows };
+
+    switch (policy) {
+        case 'keep':
+            return { data, affectedRows };
+        case 'drop':
+            return { data: data.filter(d => !hasMissing(d)), affectedRows };
+        case 'forward-fill': {
+            // Ordre de l'axe X (si disponible), sans modifier l'ordre des lignes retournées
+            const order = data.map((_, i) => i);
+            const orderFeature = options.orderFeature;
+            if (orderFeature) {
+                order.sort((a, b) => sortFunction((data[a] as any)[orderFeature], (data[b] as any)[orderFeature]));
+            }
+            const filled = data.slice() as Array<Record<string, any>>;
+            columns.forEach(col => {
+                let last: any = undefined;
+                order.forEach(i => {
+                    if (!isMissingValue(filled[i][col])) {
+                        last = filled[i][col];
+                        return;
+                    }
+                    if (last === undefined) return;
+                    if (filled[i] === data[i]) filled[i] = { ...filled[i] };
+                    filled[i][col] = last;
+                });
+            });
+            return { data: filled, affectedRows };
+        }
+        default: {
+            const fills = new Map<string, any>();
+            columns.forEach(col => {
+                const present = columnValues(data, col).filter(v => !isMissingValue(v));
+                const fill = computeFillValue(present, policy, numericFeatures.includes(col), options.fillValue ?? '');
+                if (fill !== undefined) fills.set(col, fill); // Pas de moyenne d'une colonne non numérique, p.ex.
+            });
+            return {
+                data: data.map(d => {
+                    let row = d as Record<string, any>;
+                    fills.forEach((fill, col) => {
+                        if (!isMissingValue(row[col])) return;
+                        if (row === d) row = { ...d };
+                        row[col] = fill;
+                    });
+                    return row;
+                }),
+                affectedRows
+            };
+        }
+    }
+}
+
+// Intervalles d'une feature découpée : étiquettes dans l'ordre et bornes [a, b] correspondantes
+export interface FeatureBins {
+    labels: Array<string>;
+    ranges: Array<[number, number]>;
+}
+
+// Découpe une feature numérique continue en intervalles de même largeur (étiquettes "[a, b)")
+// Renvoie les données avec l'étiquette d'intervalle à la place de la valeur, les étiquettes et leurs bornes
+export function binNumericFeature(
+    data: Readonly<Array<Object>>,
+    feature: string,
+    bins: number
+): { data: Array<Object> } & FeatureBins | null {
+    const values = columnValues(data, feature).filter(v => !isMissingValue(v));
+    if (bins < 1 || values.length === 0 || !values.every(v => typeof v === 'number')) return null;
+
+    const [min, max] = computeMinMax(values as Array<number>)!;
+    const width = (max - min) / bins || 1;
+    const format = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    const ranges = Array.from({ length: bins }, (_, i): [number, number] => [min + i * width, min + (i + 1) * width]);
+    const labels = ranges.map(([a, b], i) => `[${format(a)}, ${format(b)}${i === bins - 1 ? ']' : ')'}`);
+
+    return {
+        data: data.map(d => {
+            const value = (d as any)[feature];
+            if (isMissingValue(value)) return d;
+            const index = Math.min(Math.floor((value - min) / width), bins - 1);
+            return { ...d, [feature]: labels[index] };
+        }),
+        labels,
+        ranges
+    };
+}
+
+// Applique le découpage en intervalles aux features ligne/colonne d'une Heatmap ou d'un tableau croisé
+function binHeatmapFeatures(
+    data: Readonly<Array<Object>>,
+    rowFeature: string,
+    colFeature: string,
+    options: HeatmapOptions,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>
+): { data: Readonly<Array<Object>>, enumerations: Map<string, Array<boolean | number | string> | null>, bins: Map<string, FeatureBins> } {
+    let binnedData = data;
+    const binnedEnumerations = new Map(enumerations);
+    const bins = new Map<string, FeatureBins>();
+    ([[rowFeature, options.rowBins], [colFeature, options.colBins]] as Array<[string, number | undefined]>).forEach(([feature, count]) => {
+        const binned = feature && count ? binNumericFeature(binnedData, feature, count) : null;
+        if (binned) {
+            binnedData = binned.data;
+            binnedEnumerations.set(feature, binned.labels);
+            bins.set(feature, { labels: binned.labels, ranges: binned.ranges });
+        }
+    });
+    return { data: binnedData, enumerations: binnedEnumerations, bins };
+}
+
+// Matrice d'une Heatmap : values[ligne][colonne], étiquettes et intervalles des features découpées
+export interface HeatmapData {
+    values: Array<Array<number | null>>;
+    rowLabels: Array<any>;
+    colLabels: Array<any>;
+    bins: Map<string, FeatureBins>;
+}
+
+// Construit une matrice pour le graphique de type 'Heatmap' : values[ligne][colonne] agrégé avec la méthode choisie,
+// null pour les combinaisons sans donnée (à ne pas confondre avec un vrai zéro)
+function buildHeatmapData(
+    data: Readonly<Array<Object>>,
+    rowFeature: string,
+    colFeature: string,
+    valueFeature: string,
+    options: HeatmapOptions = {},
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map()
+): HeatmapData {
+    const binned = binHeatmapFeatures(data, rowFeature, colFeature, options, enumerations);
+    const pivot = buildPivotData(binned.data, rowFeature, colFeature, valueFeature, options.aggregation ?? 'sum', options.percentile, binned.enumerations);
+    return { values: pivot.cells, rowLabels: pivot.rowLabels, colLabels: pivot.colLabels, bins: binned.bins };
+}
+
+// Rangs moyens (les ex aequo reçoivent la moyenne de leurs rangs), pour le coefficient de Spearman
+function averageRanks(values: Array<number>): Array<number> {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    const ranks = new Array<number>(values.length);
+    for (let start = 0; start < order.length;) {
+        let end = start;
+        while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++;
+        const rank = (start + end) / 2 + 1;
+        for (let k = start; k <= end; k++) ranks[order[k]] = rank;
+        start = end + 1;
+    }
+    return ranks;
+}
+
+// Coefficient de Pearson ; null si moins de 3 couples ou si une série est constante
+function pearsonCorrelation(xs: Array<number>, ys: Array<number>): number | null {
+    const n = xs.length;
+    if (n < 3) return null;
+    const meanX = xs.reduce((sum, v) => sum + v, 0) / n;
+    const meanY = ys.reduce((sum, v) => sum + v, 0) / n;
+    let cov = 0, varX = 0, varY = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (xs[i] - meanX) * (ys[i] - meanY);
+        varX += (xs[i] - meanX) ** 2;
+        varY += (ys[i] - meanY) ** 2;
+    }
+    return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+}
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+// Matrice de corrélation entre features numériques, calculée sur les couples de valeurs présentes (suppression par paire)
+function buildCorrelationMatrix(
+    data: Readonly<Array<Object>>,
+    features: Array<string>,
+    method: CorrelationMethod
+): Array<Array<number | null>> {
+    const isNumber = (v: any) => typeof v === 'number' && !isNaN(v);
+    return features.map((a, i) => features.map((b, j) => {
+        if (i === j) return 1;
+        const pairs = data.filter(d => isNumber((d as any)[a]) && isNumber((d as any)[b]));
+        let xs = pairs.map(d => (d as any)[a] as number);
+        let ys = pairs.map(d => (d as any)[b] as number);
+        if (method === 'spearman') {
+            xs = averageRanks(xs);
+            ys = averageRanks(ys);
+        }
+        return pearsonCorrelation(xs, ys);
+    }));
+}
+
+// Colonnes dont toutes les valeurs présentes sont numériques (hors marqueur d'outliers)
+function numericColumnsOf(data: Readonly<Array<Object>>, columns: Readonly<Array<string>>): Array<string> {
+    return columns.filter(column => {
+        if (column === OUTLIER_FLAG) return false;
+        const values = data.map(d => (d as any)[column]).filter(v => !isMissingValue(v));
+        return values.length > 0 && values.every(v => typeof v === 'number');
+    });
+}
+
+// Construit la matrice d'un Bar Chart : une ligne par valeur de xFeature, une colonne par valeur de splitFeature
+// Les valeurs de yFeature sont sommées (nombre de lignes sans yFeature) ; null quand la combinaison est absente
+export function buildBarData(
+    data: Readonly<Array<Object>>,
+    xFeature: string,
+    yFeature: string,
+    splitFeature: string,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map()
+): { categories: Array<any>, series: Array<any>, values: Array<Array<number | null>>, outliers: Array<boolean> } {
+    const categories = declaredCategories(data.map(d => (d as any)[xFeature]).filter(v => !isMissingValue(v)), enumerations.get(xFeature));
+    const series = splitFeature
+        ? declaredCategories(data.map(d => (d as any)[splitFeature]).filter(v => !isMissingValue(v)), enumerations.get(splitFeature))
+        : [yFeature];
+    const categoryIndex = new Map(categories.map((c, i) => [c, i]));
+    const seriesIndex = new Map(series.map((c, i) => [c, i]));
+
+    const values: Array<Array<number | null>> = categories.map(() => series.map(() => null));
+    const outliers = categories.map(() => false);
+    data.forEach(datum => {
+        const i = categoryIndex.get((datum as any)[xFeature]);
+        const j = splitFeature ? seriesIndex.get((datum as any)[splitFeature]) : 0;
+        if (i === undefined || j === undefined) return;
+        const value = yFeature ? (datum as any)[yFeature] : 1;
+        if (typeof value !== 'number' || isNaN(value)) return;
+        values[i][j] = (values[i][j] ?? 0) + value;
+        if ((datum as any)[OUTLIER_FLAG]) outliers[i] = true;
+    });
+    return { categories, series, values, outliers };
+}
+
+// Construit les séries {x, y} d'un Line Chart / Scatter Plot : une par feature Y,
+// éventuellement éclatée selon les valeurs d'une feature de regroupement
+export function buildSeriesData(
+    data: Readonly<Array<Object>>,
+    xFeature: string,
+    yFeatures: Array<string>,
+    groupFeature: string,
+    enumeration?: Array<boolean | number | string> | null,
+    xCategories?: Array<any> | null
+): { values: Array<Array<{ x: number; y: number }>>, series: Array<string> } {
+    // Axe X catégoriel : x est le rang de la catégorie
+    const xRank = new Map((xCategories ?? []).map((c, i) => [String(c), i]));
+    const xValue = (datum: Object): number => {
+        const value = (datum as any)[xFeature];
+        if (!xCategories) return toNumericValue(value); // Les groupes agrégés peuvent être des chaînes
+        return isMissingValue(value) ? NaN : xRank.get(String(value)) ?? NaN;
+    };
+
+    const groups = groupFeature
+        ? orderCategories(data.map(d => (d as any)[groupFeature]).filter(g => g != null), enumeration)
+        : [null];
+
+    const values: Array<Array<{ x: number; y: number }>> = [];
+    const series: Array<string> = [];
+
+    // Les lignes marquées comme aberrantes forment une série à part
+    const outlierRows = data.filter(d => (d as any)[OUTLIER_FLAG]);
+    const regularRows = outlierRows.length > 0 ? data.filter(d => !(d as any)[OUTLIER_FLAG]) : data;
+    const rowsByGroup = groupFeature ? partitionBy(regularRows, d => (d as any)[groupFeature]) : null;
+
+    groups.forEach(group => {
+        const rows = group === null ? regularRows : rowsByGroup!.get(group) ?? [];
+        yFeatures.forEach(yFeature => {
+            const points = rows
+                .map(datum => ({
+                    x: xValue(datum),
+                    y: (datum as any)[yFeature] as number
+                }))
+                .filter(p => Number.isFinite(p.x) && typeof p.y === 'number' && !isNaN(p.y));
+            if (points.length === 0) return;
+
+            values.push(points);
+            if (group === null) {
+                series.push(yFeature);
+            } else {
+                series.push(yFeatures.length > 1 ? `${yFeature} (${groupFeature} = ${group})` : `${groupFeature} = ${group}`);
+            }
+        });
+    });
+
+    const outlierPoints: Array<{ x: number; y: number }> = [];
+    outlierRows.forEach(datum => yFeatures.forEach(yFeature => {
+        const point = { x: xValue(datum), y: (datum as any)[yFeature] as number };
+        if (Number.isFinite(point.x) && typeof point.y === 'number' && !isNaN(point.y)) outlierPoints.push(point);
+    }));
+    if (outlierPoints.length > 0) {
+        values.push(outlierPoints);
+        series.push(OUTLIER_SERIES_NAME);
+    }
+
+    return { values, series };
+}
+
+// Tableau croisé : une cellule par couple (ligne, colonne), agrégée avec la méthode choisie
+// Les cellules sans aucune ligne valent null (à distinguer d'un vrai zéro)
+export interface PivotData {
+    rowLabels: Array<any>;
+    colLabels: Array<any>;
+    cells: Array<Array<number | null>>;
+    rowTotals: Array<number | null>;
+    colTotals: Array<number | null>;
+    grandTotal: number | null;
+}
+
+// Construit un tableau croisé ; les totaux sont recalculés sur les valeurs d'origine (corrects aussi pour une moyenne)
+function buildPivotData(
+    data: Readonly<Array<Object>>,
+    rowFeature: string,
+    colFeature: string,
+    valueFeature: string,
+    method: MeasureMethod,
+    percentile: number = 50,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map()
+): PivotData {
+    const rowLabels = declaredCategories(data.map(d => (d as any)[rowFeature]).filter(v => !isMissingValue(v)), enumerations.get(rowFeature));
+    const colLabels = declaredCategories(data.map(d => (d as any)[colFeature]).filter(v => !isMissingValue(v)), enumerations.get(colFeature));
+    const rowIndex = new Map(rowLabels.map((v, i) => [v, i]));
+    const colIndex = new Map(colLabels.map((v, i) => [v, i]));
+
+    // Valeurs regroupées par cellule, par ligne, par colonne et au total
+    const cellValues: Array<Array<Array<any>>> = rowLabels.map(() => colLabels.map(() => []));
+    const rowValues: Array<Array<any>> = rowLabels.map(() => []);
+    const colValues: Array<Array<any>> = colLabels.map(() => []);
+    const allValues: Array<any> = [];
+
+    data.forEach(datum => {
+        const r = rowIndex.get((datum as any)[rowFeature]);
+        const c = colIndex.get((datum as any)[colFeature]);
+        if (r === undefined || c === undefined) return;
+
+        // Sans feature de valeur (ou '*'), on compte les lignes
+        const value = !valueFeature || valueFeature === '*' ? datum : (datum as any)[valueFeature];
+        if (isMissingValue(value)) return;
+        cellValues[r][c].push(value);
+        rowValues[r].push(value);
+        colValues[c].push(value);
+        allValues.push(value);
+    });
+
+    const measure = (values: Array<any>): number | null => values.length > 0 ? computeMeasure(values, method, percentile) : null;
+
+    return {
+        rowLabels,
+        colLabels,
+        cells: cellValues.map(row => row.map(measure)),
+        rowTotals: rowValues.map(measure),
+        colTotals: colValues.map(measure),
+        grandTotal: measure(allValues)
+    };
+}
+
+/**********************************
+ * Échantillonnage (grands datasets)
+ **********************************/
+
+// Réduction du nombre de points dessinés : tirage aléatoire, tirage par strate (groupe, outliers marqués)
+// ou Largest-Triangle-Three-Buckets, qui conserve la forme des courbes
+export type SamplingMethod = 'random' | 'stratified' | 'lttb';
+
+export interface SamplingOptions {
+    method: SamplingMethod;
+    maxPoints: number;
+}
+
+export const DEFAULT_MAX_POINTS = 5000;
+
+// Générateur pseudo-aléatoire à graine fixe (mulberry32) : le même échantillon d'un rendu à l'autre
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Tire `count` index parmi `indices` (mélange de Fisher-Yates partiel), rendus dans l'ordre croissant
+function sampleIndices(indices: Array<number>, count: number, random: () => number): Array<number> {
+    if (count >= indices.length) return indices;
+    const pool = indices.slice();
+    for (let i = 0; i < count; i++) {
+        const j = i + Math.floor(random() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count).sort((a, b) => a - b);
+}
+
+// Largest-Triangle-Three-Buckets : garde le premier et le dernier point, puis dans chaque intervalle le point
+// qui forme le plus grand triangle avec le point retenu précédent et la moyenne de l'intervalle suivant
+function lttbIndices(xs: Array<number>, ys: Array<number>, threshold: number): Array<number> {
+    const n = xs.length;
+    if (threshold >= n || threshold < 3) return xs.map((_, i) => i);
+
+    const kept = [0];
+    const bucketSize = (n - 2) / (threshold - 2);
+    let previous = 0;
+    for (let b = 0; b < threshold - 2; b++) {
+        const start = Math.floor(b * bucketSize) + 1;
+        const end = Math.floor((b + 1) * bucketSize) + 1;
+        const nextEnd = Math.min(Math.floor((b + 2) * bucketSize) + 1, n);
+
+        let avgX = 0;
+        let avgY = 0;
+        for (let j = end; j < nextEnd; j++) {
+            avgX += xs[j];
+            avgY += ys[j];
+        }
+        avgX /= nextEnd - end;
+        avgY /= nextEnd - end;
+
+        let maxArea = -1;
+        let chosen = start;
+        for (let j = start; j < end; j++) {
+            const area = Math.abs((xs[previous] - avgX) * (ys[j] - ys[previous]) - (xs[previous] - xs[j]) * (avgY - ys[previous]));
+            if (area > maxArea) {
+                maxArea = area;
+                chosen = j;
+            }
+        }
+        kept.push(chosen);
+        previous = chosen;
+    }
+    kept.push(n - 1);
+    return kept;
+}
+
+// Échantillonne les lignes d'un Line Chart / Scatter Plot au-delà de maxPoints. Les strates (et les séries pour LTTB)
+// sont les valeurs de la feature de regroupement, lignes aberrantes marquées à part ; chacune reçoit une part proportionnelle
+function sampleRows(
+    data: Readonly<Array<Object>>,
+    options: SamplingOptions,
+    xFeature: string,
+    yFeature: string,
+    groupFeature: string
+): Readonly<Array<Object>> {
+    const maxPoints = Math.max(1, options.maxPoints);
+    if (data.length <= maxPoints) return data;
+
+    const rows = data as ReadonlyArray<Record<string, any>>;
+    const random = seededRandom(data.length);
+    const indices = rows.map((_, i) => i);
+    const quota = (size: number) => Math.max(1, Math.round(size * maxPoints / data.length));
+    if (options.method === 'random') return sampleIndices(indices, maxPoints, random).map(i => data[i]);
+
+    const kept: Array<number> = [];
+    const strata = partitionBy(indices, i => JSON.stringify([groupFeature ? rows[i][groupFeature] : null, !!rows[i][OUTLIER_FLAG]]));
+    strata.forEach(stratum => {
+        if (options.method === 'stratified') {
+            sampleIndices(stratum, quota(stratum.length), random).forEach(i => kept.push(i));
+            return;
+        }
+        // LTTB : points de la série dans l'ordre de X (rang pour un X non numérique)
+        const points = stratum
+            .filter(i => !isMissingValue(rows[i][xFeature]) && typeof rows[i][yFeature] === 'number')
+            .sort((a, b) => compareValues(rows[a][xFeature], rows[b][xFeature]));
+        const xs = points.map((i, rank) => {
+            const x = toNumericValue(rows[i][xFeature]);
+            return Number.isFinite(x) ? x : rank;
+        });
+        const ys = points.map(i => rows[i][yFeature] as number);
+        lttbIndices(xs, ys, Math.max(3, quota(points.length))).forEach(k => kept.push(points[k]));
+    });
+    return kept.sort((a, b) => a - b).map(i => data[i]);
+}
+
+/**********************************
+ * Agrégation des données
+ **********************************/
+
+// Méthodes d'agrégation disponibles
+export type AggregationMethod = 'sum' | 'average' | 'median' | 'min' | 'max';
+
+// Méthodes disponibles pour les mesures d'un group-by (en plus des méthodes d'agrégation simples)
+export type MeasureMethod = AggregationMethod | 'count' | 'distinct' | 'std' | 'variance' | 'percentile' | 'first' | 'last';
+
+export const MEASURE_METHODS: Array<MeasureMethod> = ['count', 'distinct', 'sum', 'average', 'median', 'min', 'max', 'std', 'variance', 'percentile', 'first', 'last'];
+
+// Une mesure calculée pour chaque groupe, p.ex. { feature: 'Salary', method: 'percentile', percentile: 90 }
+// feature '*' avec 'count' compte les lignes du groupe
+export interface AggregationMeasure {
+    feature: string;
+    method: MeasureMethod;
+    percentile?: number; // 0..100, pour 'percentile'
+    as?: string;         // Nom de la colonne produite (par défaut "p90(Salary)", "count(*)"...)
+}
+
+// Regroupement sur une ou plusieurs clés avec plusieurs mesures
+export interface GroupBySpec {
+    keys: Array<string>;
+    measures: Array<AggregationMeasure>;
+}
+
+// Nom de la colonne produite par une mesure
+export function measureName(measure: AggregationMeasure): string {
+    if (measure.as) return measure.as;
+    if (measure.method === 'percentile') return `p${measure.percentile ?? 50}(${measure.feature})`;
+    return `${measure.method}(${measure.feature})`;
+}
+
+// Calcule une mesure sur les valeurs (non manquantes) d'un groupe
+function computeMeasure(values: Array<any>, method: MeasureMethod, percentile: number = 50): number | any {
+    switch (method) {
+        case 'count':
+            return values.length;
+        case 'distinct':
+            return new Set(values).size;
+        case 'first':
+            return values[0];
+        case 'last':
+            return values[values.length - 1];
+    }
+
+    // Les autres méthodes ne portent que sur des nombres
+    const numbers = values.filter(v => typeof v === 'number' && !isNaN(v));
+    if (numbers.length === 0) return null;
+
+    switch (method) {
+        case 'sum':
+            return numbers.reduce((sum, v) => sum + v, 0);
+        case 'average':
+            return numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+        case 'median':
+            return quantile([...numbers].sort((a, b) => a - b), 0.5);
+        case 'percentile':
+            return quantile([...numbers].sort((a, b) => a - b), percentile / 100);
+        case 'min':
+            return computeMinMax(numbers)![0];
+        case 'max':
+            return computeMinMax(numbers)![1];
+        case 'std':
+        case 'variance': {
+            // Variance d'échantillon (n - 1)
+            if (numbers.length < 2) return 0;
+            const mean = numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+            const variance = numbers.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (numbers.length - 1);
+            return method === 'std' ? Math.sqrt(variance) : variance;
+        }
+    }
+}
+
+// Regroupe les lignes selon une ou plusieurs clés et calcule plusieurs mesures par groupe
+// Retourne une ligne par combinaison de clés : { [clé]..., [nom de mesure]... }
+function groupByAggregate(
+    data: Readonly<Array<Object>>,
+    groupBy: GroupBySpec,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map()
+): Array<Object> {
+    const groups = new Map<string, { keys: Array<any>, rows: Array<Object> }>();
+    data.forEach(row => {
+        const keyValues = groupBy.keys.map(k => (row as any)[k]);
+        const key = JSON.stringify(keyValues);
+        if (!groups.has(key)) groups.set(key, { keys: keyValues, rows: [] });
+        groups.get(key)!.rows.push(row);
+    });
+
+    const result = Array.from(groups.values()).map(({ keys, rows }) => {
+        const out: Record<string, any> = {};
+        groupBy.keys.forEach((k, i) => out[k] = keys[i]);
+        groupBy.measures.forEach(measure => {
+            const values = measure.feature === '*'
+                ? rows
+                : rows.map(r => (r as any)[measure.feature]).filter(v => !isMissingValue(v));
+            out[measureName(measure)] = computeMeasure(values, measure.method, measure.percentile);
+        });
+        if (rows.some(r => (r as any)[OUTLIER_FLAG])) out[OUTLIER_FLAG] = true;
+        return out;
+    });
+
+    // Tri selon les clés (ordre des énumérations si disponible)
+    const ranks = groupBy.keys.map(k => {
+        const ordered = orderCategories(result.map(r => r[k]), enumerations.get(k));
+        return new Map(ordered.map((v, i) => [v, i]));
+    });
+    result.sort((a, b) => {
+        for (let i = 0; i < groupBy.keys.length; i++) {
+            const diff = ranks[i].get(a[groupBy.keys[i]])! - ranks[i].get(b[groupBy.keys[i]])!;
+            if (diff !== 0) return diff;
+        }
+        return 0;
+    });
+
+    return result;
+}
+
+// Agréger les données selon un groupe et une méthode
+function aggregateData(
+    data: Readonly<Array<Object>>,
+    groupFeature: string,
+    numericFeature: string,
+    method: AggregationMethod
+): Array<{ group: string | number; value: number }> {
+    // Si data est vide, on retourne un tableau vide
+    if (!data || data.length === 0) {
+        console.warn('aggregateData: dataset is empty!');
+        return [];
+    }
+
+    // Map qui associe un groupFeature (ex: version) à la liste des valeurs (ex: salaires)
+    const groupsMap = new Map<string | number, number[]>();
+
+    for (const row of data) {
+        const g = (row as any)[groupFeature];
+        const val = (row as any)[numericFeature];
+
+        // Filtrer les entrées invalides
+        if (g == null || val == null || typeof val !== 'number' || isNaN(val)) continue;
+
+        // On peut laisser tel quel si c'est un nombre.
+        const groupKey: string | number = typeof g === 'number' || typeof g === 'string' ? g : String(g);
+
+        if (!groupsMap.has(groupKey)) {
+            groupsMap.set(groupKey, []);
+        }
+        groupsMap.get(groupKey)!.push(val);
+    }
+
+    const aggregatedData: Array<{ group: string | number; value: number }> = [];
+    for (const [group, values] of groupsMap.entries()) {
+        if (values.length === 0) continue;
+
+        // Par défaut, on peut faire la moyenne
+        const aggregatedValue = computeMeasure(values, method || 'average');
+
+        aggregatedData.push({ group, value: aggregatedValue });
+    }
+
+    // On trie par ordre croissant de group si c'est un nombre
+    // (par exemple, si groupFeature = "Version")
+    aggregatedData.sort((a, b) => {
+        if (typeof a.group === 'number' && typeof b.group === 'number') {
+            return a.group - b.group;
+        }
+        // sinon tri lexicographique pour des strings
+        return String(a.group).localeCompare(String(b.group));
+    });
+
+    return aggregatedData;
+}
+
+// Agréger plusieurs features Y (et éventuellement par groupe) en lignes {[xFeature], [groupFeature], [yFeature]...}
+function aggregateSeriesData(
+    data: Readonly<Array<Object>>,
+    xFeature: string,
+    yFeatures: Array<string>,
+    groupFeature: string,
+    method: AggregationMethod
+): Array<Object> {
+    const subsets: Map<any, ReadonlyArray<Object>> = groupFeature ? partitionBy(data, d => (d as any)[groupFeature]) : new Map([[null, data]]);
+    const rows = new Map<string, Record<string, any>>();
+
+    subsets.forEach((subset, group) => {
+        yFeatures.forEach(yFeature => {
+            aggregateData(subset, xFeature, yFeature, method).forEach(({ group: x, value }) => {
+                // Une ligne par couple (groupe, x) qui regroupe les valeurs de toutes les features Y
+                const key = JSON.stringify([group, x]);
+                if (!rows.has(key)) {
+                    rows.set(key, groupFeature ? { [xFeature]: x, [groupFeature]: group } : { [xFeature]: x });
+                }
+                rows.get(key)![yFeature] = value;
+            });
+        });
+
+        // Un groupe agrégé est marqué s'il contient au moins une ligne aberrante marquée
+        subset.forEach(d => {
+            if (!(d as any)[OUTLIER_FLAG]) return;
+            const row = rows.get(JSON.stringify([group, (d as any)[xFeature]]));
+            if (row) row[OUTLIER_FLAG] = true;
+        });
+    });
+
+    return Array.from(rows.values());
+}
+
+/**********************************
+ * Courbes de tendance (Scatter Plot)
+ **********************************/
+
+export type TrendMethod = 'none' | 'linear' | 'polynomial' | 'loess';
+
+// Options de la courbe de tendance superposée au nuage de points
+export interface TrendOptions {
+    method?: TrendMethod;
+    degree?: number;      // Degré du polynôme (méthode 'polynomial')
+    span?: number;        // Part des points utilisée par chaque ajustement local (méthode 'loess')
+    perGroup?: boolean;   // Une courbe par série quand les points sont éclatés par une feature de regroupement
+}
+
+// Ajustement calculé : prédiction et statistiques affichées sous le graphique
+interface TrendFit {
+    predict: (x: number) => number;
+    description: string;  // Équation ou méthode
+    parameters: number;   // Nombre de paramètres (degrés de liberté consommés)
+}
+
+// Nombre de points échantillonnés pour dessiner une courbe de tendance
+const TREND_SAMPLES = 100;
+
+// Nombre maximal de points sur lesquels R² et RSE sont évalués (une prédiction LOESS parcourt toute sa fenêtre)
+const TREND_STATISTICS_POINTS = 2000;
+
+// Résout A·x = b par élimination de Gauss avec pivot partiel ; null si le système est singulier
+function solveLinearSystem(A: Array<Array<number>>, b: Array<number>): Array<number> | null {
+    const n = b.length;
+    const m = A.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+        }
+    }
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+}
+
+// Écrit un polynôme (coefficients par puissance croissante) sous la forme "y = a·x² + b·x + c"
+function formatPolynomial(coefficients: Array<number>): string {
+    const format = (v: number) => Number(v.toPrecision(4)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+    const terms = coefficients
+        .map((c, power) => ({ c, power }))
+        .reverse()
+        .filter(t => t.c !== 0)
+        .map(({ c, power }, i) => {
+            const sign = c < 0 ? (i === 0 ? '-' : ' - ') : (i === 0 ? '' : ' + ');
+            const variable = power === 0 ? '' : power === 1 ? '·x' : `·x${power === 2 ? '²' : power === 3 ? '³' : '^' + power}`;
+            return sign + format(Math.abs(c)) + variable;
+        });
+    return 'y = ' + (terms.join('') || '0');
+}
+
+// Moindres carrés polynomiaux ; x est centré-réduit pendant l'ajustement pour rester bien conditionné
+function fitPolynomial(points: Array<{ x: number; y: number }>, degree: number): TrendFit | null {
+    const n = points.length;
+    if (n <= degree) return null;
+    const mean = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const scale = Math.sqrt(points.reduce((sum, p) => sum + (p.x - mean) ** 2, 0) / n) || 1;
+    const powers = (x: number) => Array.from({ length: degree + 1 }, (_, k) => ((x - mean) / scale) ** k);
+
+    // Équations normales (XᵀX)·c = Xᵀy
+    const XtX = Array.from({ length: degree + 1 }, () => new Array<number>(degree + 1).fill(0));
+    const Xty = new Array<number>(degree + 1).fill(0);
+    points.forEach(p => {
+        const row = powers(p.x);
+        row.forEach((a, i) => {
+            Xty[i] += a * p.y;
+            row.forEach((b, j) => XtX[i][j] += a * b);
+        });
+    });
+    const scaled = solveLinearSystem(XtX, Xty);
+    if (!scaled) return null;
+
+    // Coefficients exprimés en x d'origine : Σ c_k·((x - m)/s)^k développé par le binôme
+    const coefficients = new Array<number>(degree + 1).fill(0);
+    const binomial = (k: number, j: number) => { let r = 1; for (let i = 1; i <= j; i++) r = r * (k - j + i) / i; return r; };
+    scaled.forEach((c, k) => {
+        for (let j = 0; j <= k; j++) {
+            coefficients[j] += c / scale ** k * binomial(k, j) * (-mean) ** (k - j);
+        }
+    });
+
+    return {
+        predict: x => powers(x).reduce((sum, a, k) => sum + a * scaled[k], 0),
+        description: formatPolynomial(coefficients),
+        parameters: degree + 1
+    };
+}
+
+// Lissage LOESS : régression linéaire locale pondérée (poids tricubes) sur la part `span` des points les plus proches
+function fitLoess(points: Array<{ x: number; y: number }>, span: number): TrendFit | null {
+    const n = points.length;
+    if (n < 3) return null;
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const q = Math.min(n, Math.max(3, Math.ceil(span * n)));
+
+    const predict = (x0: number): number => {
+        // Fenêtre des q voisins les plus proches [start, start + q) : la plus petite position où le voisin suivant
+        // la fenêtre n'est pas plus proche que son premier point (recherche dichotomique)
+        let start = 0, last = n - q;
+        while (start < last) {
+            const mid = (start + last) >> 1;
+            if (x0 - sorted[mid].x > sorted[mid + q].x - x0) start = mid + 1; else last = mid;
+        }
+        const end = start + q;
+        // Fenêtre triée et contiguë : le point le plus éloigné est à l'une de ses extrémités
+        const maxDistance = Math.max(x0 - sorted[start].x, sorted[end - 1].x - x0) || 1;
+
+        let sw = 0, swx = 0, swy = 0, swxx = 0, swxy = 0, sy = 0;
+        for (let i = start; i < end; i++) {
+            const { x, y } = sorted[i];
+            const d = Math.abs(x - x0) / maxDistance;
+            const t = 1 - d * d * d;
+            const w = t * t * t; // Poids tricube
+            sw += w; swx += w * x; swy += w * y; swxx += w * x * x; swxy += w * x * y; sy += y;
+        }
+        if (sw === 0) return sy / q;
+        const denominator = sw * swxx - swx * swx;
+        if (Math.abs(denominator) < 1e-12) return swy / sw; // Abscisses identiques : moyenne pondérée
+        const slope = (sw * swxy - swx * swy) / denominator;
+        return (swy - slope * swx) / sw + slope * x0;
+    };
+
+    // Degrés de liberté approchés par ceux d'une régression linéaire
+    return { predict, description: `LOESS (span ${span})`, parameters: 2 };
+}
+
+// Ajuste une courbe de tendance selon la méthode choisie
+function fitTrend(points: Array<{ x: number; y: number }>, options: TrendOptions): TrendFit | null {
+    switch (options.method) {
+        case 'linear':
+            return fitPolynomial(points, 1);
+        case 'polynomial':
+            return fitPolynomial(points, Math.max(1, Math.round(options.degree ?? 2)));
+        case 'loess':
+            return fitLoess(points, options.span ?? 0.3);
+        default:
+            return null;
+    }
+}
+
+// Qualité de l'ajustement : R² et écart-type résiduel (RSE), estimés sur des points régulièrement espacés
+// au-delà de TREND_STATISTICS_POINTS points
+function trendStatistics(allPoints: Array<{ x: number; y: number }>, fit: TrendFit): { r2: number, rse: number } {
+    const points = allPoints.length > TREND_STATISTICS_POINTS
+        ? Array.from({ length: TREND_STATISTICS_POINTS }, (_, k) => allPoints[Math.floor(k * allPoints.length / TREND_STATISTICS_POINTS)])
+        : allPoints;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const ssRes = points.reduce((sum, p) => sum + (p.y - fit.predict(p.x)) ** 2, 0);
+    const ssTot = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+    const dof = points.length - fit.parameters;
+    return { r2: ssTot === 0 ? NaN : 1 - ssRes / ssTot, rse: dof > 0 ? Math.sqrt(ssRes / dof) : NaN };
+}
+
+// Courbes de tendance à ajouter au nuage de points : séries, série ajustée de chacune et lignes de statistiques
+export interface TrendSeries {
+    values: Array<Array<{ x: number; y: number }>>;
+    series: Array<string>;
+    baseSeries: Array<string>;
+    statistics: Array<string>;
+}
+
+// Calcule les séries de tendance (points échantillonnés) et leurs statistiques, une par série ajustée
+// Sur un axe catégoriel, la courbe n'est évaluée qu'aux rangs des catégories (sampleXs)
+function buildTrendSeries(
+    fitted: { values: Array<Array<{ x: number; y: number }>>, series: Array<string> },
+    options: TrendOptions,
+    sampleXs?: Array<number>
+): TrendSeries {
+    const result: TrendSeries = { values: [], series: [], baseSeries: [], statistics: [] };
+    const format = (v: number) => isNaN(v) ? 'n/a' : v.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    fitted.values.forEach((points, i) => {
+        const name = fitted.series[i];
+        if (name === OUTLIER_SERIES_NAME) return; // Les outliers marqués ne pèsent pas sur la tendance
+        const fit = fitTrend(points, options);
+        if (!fit) return;
+
+        const [min, max] = computeMinMax(points.map(p => p.x))!;
+        const xs = sampleXs ? sampleXs.filter(x => x >= min && x <= max) : Array.from({ length: TREND_SAMPLES }, (_, k) => min + (max - min) * k / (TREND_SAMPLES - 1));
+        const samples = xs.map(x => ({ x, y: fit.predict(x) })).filter(p => Number.isFinite(p.y));
+
+        const { r2, rse } = trendStatistics(points, fit);
+        result.values.push(samples);
+        result.series.push(`${name} (${options.method} trend)`);
+        result.baseSeries.push(name);
+        const estimated = points.length > TREND_STATISTICS_POINTS ? ` (on ${TREND_STATISTICS_POINTS} points)` : '';
+        result.statistics.push(`${name}: ${fit.description} · R² = ${format(r2)} · RSE = ${format(rse)}${estimated} · n = ${points.length}`);
+    });
+    return result;
+}
+
+/**********************************
+ * Distributions (Box Plot / Violin Plot)
+ **********************************/
+
+// Résumé d'une distribution : quartiles, moustaches de Tukey (1,5 × IQR) et points au-delà
+interface BoxStatistics {
+    n: number;
+    mean: number;
+    q1: number;
+    median: number;
+    q3: number;
+    lowerWhisker: number;
+    upperWhisker: number;
+    outliers: Array<number>;
+}
+
+function computeBoxStatistics(values: Array<number>): BoxStatistics {
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    const inside = sorted.filter(v => v >= q1 - 1.5 * iqr && v <= q3 + 1.5 * iqr);
+    return {
+        n: sorted.length,
+        mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+        q1,
+        median: quantile(sorted, 0.5),
+        q3,
+        lowerWhisker: inside[0],
+        upperWhisker: inside[inside.length - 1],
+        outliers: sorted.filter(v => v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr)
+    };
+}
+
+// Estimation de densité par noyau gaussien (fenêtre de Silverman), évaluée sur `steps` points entre min et max
+function kernelDensity(values: Array<number>, min: number, max: number, steps: number = 50): Array<{ value: number, density: number }> {
+    const n = values.length;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / n;
+    const std = Math.sqrt(sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(n - 1, 1));
+    const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+    const bandwidth = 0.9 * (Math.min(std, iqr / 1.34) || std || 1) * n ** -0.2;
+
+    return Array.from({ length: steps }, (_, k) => {
+        const value = min + (max - min) * k / (steps - 1);
+        const density = sorted.reduce((sum, v) => sum + Math.exp(-0.5 * ((value - v) / bandwidth) ** 2), 0)
+            / (n * bandwidth * Math.sqrt(2 * Math.PI));
+        return { value, density };
+    });
+}
+
+// Distribution d'une catégorie prête à dessiner : statistiques, étendue des valeurs, outliers marqués
+// par la chaîne de traitement (mode "mark") et densité estimée (violons seulement)
+export interface DistributionData {
+    name: string;
+    stats: BoxStatistics;
+    range: [number, number];
+    marked: Array<number>;
+    density: Array<{ value: number, density: number }>;
+}
+
+// Une distribution de valueFeature par catégorie de groupFeature (ordre de l'énumération DMN), toutes les lignes sans regroupement
+function buildDistributions(
+    data: Readonly<Array<Object>>,
+    valueFeature: string,
+    groupFeature: string,
+    groupEnumeration: Array<boolean | number | string> | null | undefined,
+    kind: 'box' | 'violin'
+): Array<DistributionData> {
+    const isNumber = (v: any) => typeof v === 'number' && !isNaN(v);
+    const groups = groupFeature
+        ? orderCategories(data.map(d => (d as any)[groupFeature]).filter(g => !isMissingValue(g)), groupEnumeration)
+        : [null];
+    return groups
+        .map(group => {
+            const rows = data.filter(d => group === null || (d as any)[groupFeature] === group);
+            return {
+                name: group === null ? valueFeature : String(group),
+                values: rows.filter(d => !(d as any)[OUTLIER_FLAG]).map(d => (d as any)[valueFeature]).filter(isNumber) as Array<number>,
+                marked: rows.filter(d => (d as any)[OUTLIER_FLAG]).map(d => (d as any)[valueFeature]).filter(isNumber) as Array<number>
+            };
+        })
+        .filter(d => d.values.length > 0)
+        .map(({ name, values, marked }) => {
+            const range = computeMinMax(values)!;
+            return { name, stats: computeBoxStatistics(values), range, marked, density: kind === 'violin' ? kernelDensity(values, ...range) : [] };
+        });
+}
+
+// Graduations "rondes" (1, 2, 5 × 10^k) couvrant [min, max]
+export function niceTicks(min: number, max: number, count: number = 6): Array<number> {
+    if (min === max) return [min];
+    const rawStep = (max - min) / count;
+    const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+    const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep)!;
+    const ticks: Array<number> = [];
+    for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) {
+        ticks.push(Number(t.toPrecision(12)));
+    }
+    return ticks;
+}
+
+/**********************************
+ * Statistiques descriptives (Summary)
+ **********************************/
+
+// Résumé d'une feature : statistiques numériques pour les colonnes numériques, valeurs fréquentes pour les catégorielles
+export interface FeatureSummary {
+    feature: string;
+    type: 'numeric' | 'categorical';
+    count: number;      // Valeurs présentes
+    missing: number;
+    distinct: number;
+    min?: number;
+    q1?: number;
+    median?: number;
+    q3?: number;
+    max?: number;
+    mean?: number;
+    std?: number;
+    topValues?: Array<{ value: any; count: number }>;
+}
+
+// Nombre de valeurs les plus fréquentes listées par feature catégorielle
+const SUMMARY_TOP_VALUES = 5;
+
+// Statistiques de chaque colonne ; les features énumérées (DMN) listent aussi leurs valeurs fréquentes même si elles sont numériques
+function summarizeFeatures(
+    data: Readonly<Array<Object>>,
+    columns: Readonly<Array<string>>,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map()
+): Array<FeatureSummary> {
+    const numericColumns = numericColumnsOf(data, columns);
+    return columns.filter(column => column !== OUTLIER_FLAG).map(feature => {
+        const present = data.map(d => (d as any)[feature]).filter(v => !isMissingValue(v));
+        const summary: FeatureSummary = {
+            feature,
+            type: numericColumns.includes(feature) ? 'numeric' : 'categorical',
+            count: present.length,
+            missing: data.length - present.length,
+            distinct: new Set(present).size
+        };
+
+        if (summary.type === 'numeric') {
+            const box = computeBoxStatistics(present);
+            const [min, max] = computeMinMax(present)!;
+            Object.assign(summary, { min, q1: box.q1, median: box.median, q3: box.q3, max, mean: box.mean, std: computeMeasure(present, 'std') });
+        }
+        if (summary.type === 'categorical' || enumerations.get(feature)) {
+            const counts = new Map<any, number>();
+            present.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+            summary.topValues = Array.from(counts, ([value, count]) => ({ value, count }))
+                .sort((a, b) => b.count - a.count || compareValues(a.value, b.value))
+                .slice(0, SUMMARY_TOP_VALUES);
+        }
+        return summary;
+    });
+}
+
+/**********************************
+ * Expressions de filtre
+ **********************************/
+
+// Représente un seul filtre, p.ex. {column: "Version", operator: ">=", value: 10}
+// 'between' attend [min, max], 'in' un tableau de valeurs, 'is null' / 'is not null' aucune valeur
+export interface Filter {
+    column: string;
+    operator: string;
+    value: any;
+    negate?: boolean;
+}
+
+// Groupe de conditions combinées par ET / OU, éventuellement nié
+export interface FilterGroup {
+    combinator: 'and' | 'or';
+    negate?: boolean;
+    conditions: Array<FilterExpression>;
+}
+
+export type FilterExpression = Filter | FilterGroup;
+
+export function isFilterGroup(expression: FilterExpression): expression is FilterGroup {
+    return 'conditions' in expression;
+}
+
+// Liste les colonnes utilisées par une expression de filtre
+export function collectFilterColumns(expression: FilterExpression): Array<string> {
+    if (!isFilterGroup(expression)) return [expression.column];
+    const columns: Array<string> = [];
+    expression.conditions.forEach(c => columns.push(...collectFilterColumns(c)));
+    return columns;
+}
+
+// Expressions régulières compilées une seule fois par filtre
+const compiledFilterRegex = new WeakMap<Filter, RegExp | null>();
+
+// Évalue une condition simple sur une ligne
+function evaluateFilter(datum: Object, fil: Filter): boolean {
+    const rowVal = (datum as any)[fil.column];
+    let result: boolean;
+
+    if (fil.operator === 'is null') {
+        result = rowVal == null;
+    } else if (fil.operator === 'is not null') {
+        result = rowVal != null;
+    } else if (rowVal == null) {
+        result = false;
+    } else {
+        switch (fil.operator) {
+            case '==': result = rowVal == fil.value; break;
+            case '!=': result = rowVal != fil.value; break;
+            case '<': result = rowVal < +fil.value; break;
+            case '<=': result = rowVal <= +fil.value; break;
+            case '>': result = rowVal > +fil.value; break;
+            case '>=': result = rowVal >= +fil.value; break;
+            case 'between': result = rowVal >= +fil.value[0] && rowVal <= +fil.value[1]; break;
+            case 'in': result = (fil.value as Array<any>).map(String).includes(String(rowVal)); break;
+            case 'contains': result = String(rowVal).includes(String(fil.value)); break;
+            case 'startsWith': result = String(rowVal).startsWith(String(fil.value)); break;
+            case 'regex': {
+                if (!compiledFilterRegex.has(fil)) {
+                    let regex: RegExp | null = null;
+                    try {
+                        regex = new RegExp(String(fil.value));
+                    } catch (error: unknown) {
+                        console.warn(`evaluateFilter: invalid regular expression ${fil.value}`, error);
+                    }
+                    compiledFilterRegex.set(fil, regex);
+                }
+                const regex = compiledFilterRegex.get(fil);
+                result = regex ? regex.test(String(rowVal)) : false;
+                break;
+            }
+            default: result = true;
+        }
+    }
+
+    return fil.negate ? !result : result;
+}
+
+// Évalue une expression (condition ou groupe) sur une ligne
+function evaluateFilterExpression(datum: Object, expression: FilterExpression): boolean {
+    if (!isFilterGroup(expression)) return evaluateFilter(datum, expression);
+
+    const result = expression.combinator === 'or'
+        ? expression.conditions.some(c => evaluateFilterExpression(datum, c))
+        : expression.conditions.every(c => evaluateFilterExpression(datum, c));
+    return expression.negate ? !result : result;
+}
+
+//  Extrait/injecte un FilterExpression[] dans applyFiltering pour l'appliquer aux données après (ET entre les éléments)
+function applyFiltering(data: Readonly<Array<Object>>, filters: FilterExpression[]): Array<Object> {
+    return data.filter(d => filters.every(fil => evaluateFilterExpression(d, fil)));
+}
+
+/**********************************
+ * Spécification déclarative des graphiques
+ **********************************/
+
+// Types de graphiques disponibles
+export type ChartType = 'Line Chart' | 'Bar Chart' | 'Donut Chart' | 'Scatter Plot' | 'Heatmap' | 'Histogram' | 'Box Plot' | 'Violin Plot' | 'Table' | 'Pivot Table' | 'Correlation Matrix' | 'Summary';
+
+export const CHART_TYPES: Array<ChartType> = ['Line Chart', 'Bar Chart', 'Donut Chart', 'Scatter Plot', 'Heatmap', 'Histogram', 'Box Plot', 'Violin Plot', 'Table', 'Pivot Table', 'Correlation Matrix', 'Summary'];
+
+// Disposition des barres quand une seconde feature découpe chaque barre
+export type BarMode = 'simple' | 'grouped' | 'stacked' | 'percent';
+
+export interface BarOptions {
+    mode?: BarMode;                              // 'simple' par défaut (pas de découpage)
+    orientation?: 'vertical' | 'horizontal';
+}
+
+// Options de la Heatmap (partagées avec le tableau croisé pour le découpage en intervalles)
+export interface HeatmapOptions {
+    aggregation?: MeasureMethod;   // 'sum' par défaut
+    percentile?: number;
+    rowBins?: number;              // Nombre d'intervalles pour une feature ligne numérique (0 : pas de découpage)
+    colBins?: number;
+}
+
+// Options du tableau croisé (Pivot Table), construit sur les features ligne/colonne/valeur de la Heatmap
+export interface PivotOptions {
+    aggregation?: MeasureMethod;   // 'sum' par défaut
+    percentile?: number;
+    percentMode?: 'none' | 'row' | 'column' | 'total';
+    showTotals?: boolean;
+    withHeatmap?: boolean;         // Affiche aussi la heatmap sous le tableau
+}
+
+// Superposition des deux datasets (une série par dataset) ou différences ligne à ligne
+export type ComparisonMode = 'overlay' | 'diff';
+
+// Description complète d'un graphique, équivalente à l'état des contrôles de l'UI
+export interface ChartSpec {
+    chartType: ChartType;
+    xFeature?: string;
+    yFeatures?: Array<string>; // La première feature est l'axe Y principal
+    groupFeature?: string;
+    rowFeature?: string;
+    colFeature?: string;
+    valueFeature?: string;
+    heatmap?: HeatmapOptions & { annotate?: boolean; center?: number };
+    pivot?: PivotOptions;
+    correlation?: { method?: CorrelationMethod };
+    trend?: TrendOptions;
+    bar?: BarOptions;
+    donut?: { hole?: number };                   // Rayon du trou rapporté au rayon (0 : camembert)
+    filters?: Array<FilterExpression>;
+    normalize?: boolean;
+    scaling?: ScalingMethod; // Méthode utilisée quand normalize est vrai (min-max par défaut)
+    columnScaling?: Record<string, ScalingMethod | 'none'>; // Surcharges par colonne (même si normalize est faux)
+    removeOutliers?: boolean; // Active la gestion des outliers (retrait ou marquage selon outliers.mode)
+    outlierThreshold?: number;
+    outliers?: { method?: OutlierMethod; scope?: 'all' | 'plotted'; mode?: 'drop' | 'mark' };
+    aggregation?: AggregationMethod; // Absente => pas d'agrégation
+    sampling?: SamplingOptions; // Absente => tous les points (Line Chart / Scatter Plot seulement)
+    groupBy?: GroupBySpec; // Regroupement multi-clés / multi-mesures, prioritaire sur aggregation et valable pour tous les graphiques
+    missingValues?: { policy: MissingValuePolicy; fillValue?: string }; // Absente => valeurs conservées
+    sort?: { column: string; order: 'asc' | 'desc' };
+    table?: Partial<TableView>;                   // Vue du tableau : pagination, colonnes, tri multi-colonnes, recherche, formats
+    colors?: { color?: string; series?: Record<string, string>; colorMap?: string };
+    fontSize?: number;
+    selectable?: boolean; // Clic / rectangle de sélection sur le graphique => filtre
+    compare?: { dataset: string; mode?: ComparisonMode }; // Dataset enregistré comparé au dataset courant
+    histogram?: { maxBins?: number; stats?: boolean };
+}
+
+// Description des colonnes d'un dataset (telle que reçue par Setup)
+export interface DatasetSchema {
+    features: Readonly<Array<string>>;
+    types: Readonly<Array<string>>;
+    enumerations?: Readonly<Map<string, Array<boolean | number | string> | null>>;
+}
+
+// Déduit un schéma minimal à partir des données quand l'appelant n'en fournit pas
+export function inferSchema(data: Readonly<Array<Object>>): DatasetSchema {
+    const features = new Set<string>();
+    data.forEach(d => Object.keys(d).forEach(key => features.add(key)));
+    const featureList = Array.from(features);
+    const types = featureList.map(feature => {
+        const values = data.map(d => (d as any)[feature]).filter(v => v != null);
+        if (values.length > 0 && values.every(v => typeof v === 'number')) return 'number';
+        if (values.length > 0 && values.every(v => typeof v === 'boolean')) return 'boolean';
+        return 'string';
+    });
+    return { features: featureList, types };
+}
+
+// Features référencées par une spécification mais absentes du dataset
+export function unknownSpecFeatures(spec: ChartSpec, features: Readonly<Array<string>>): Array<string> {
+    // Après un group-by, les graphiques portent sur les clés et les mesures produites
+    const outputColumns = spec.groupBy
+        ? [...spec.groupBy.keys, ...spec.groupBy.measures.map(measureName)]
+        : features;
+    const referenced = [
+        spec.xFeature, ...(spec.yFeatures ?? []), spec.groupFeature,
+        spec.rowFeature, spec.colFeature, spec.valueFeature,
+        spec.sort?.column
+    ].filter(f => f && !outputColumns.includes(f));
+
+    (spec.filters ?? []).forEach(fil => referenced.push(...collectFilterColumns(fil)));
+    if (spec.groupBy) {
+        referenced.push(...spec.groupBy.keys, ...spec.groupBy.measures.map(m => m.feature).filter(f => f !== '*'));
+    }
+    return referenced.filter((f, i, all): f is string => !!f && !features.includes(f) && all.indexOf(f) === i);
+}
+
+// Features Y et regroupement effectivement utilisés (plusieurs séries seulement pour Line/Scatter,
+// une distribution par catégorie pour Box/Violin)
+export function resolveSeriesFeatures(spec: ChartSpec): { yFeatures: Array<string>, groupFeature: string } {
+    const yFeatures = (spec.yFeatures ?? []).filter((f, i, all) => f !== "" && all.indexOf(f) === i);
+    if (spec.chartType === 'Line Chart' || spec.chartType === 'Scatter Plot') {
+        return { yFeatures, groupFeature: spec.groupFeature ?? "" };
+    }
+    if (spec.chartType === 'Box Plot' || spec.chartType === 'Violin Plot' || spec.chartType === 'Donut Chart') {
+        return { yFeatures: yFeatures.slice(0, 1), groupFeature: spec.groupFeature ?? "" };
+    }
+    // La feature de regroupement découpe les barres en mode groupé/empilé
+    if (spec.chartType === 'Bar Chart' && spec.bar?.mode && spec.bar.mode !== 'simple') {
+        return { yFeatures: yFeatures.slice(0, 1), groupFeature: spec.groupFeature ?? "" };
+    }
+    return { yFeatures: yFeatures.slice(0, 1), groupFeature: "" };
+}
+
+// Colonnes utilisées par le graphique (toutes les features pour la Table et le résumé, les numériques pour la matrice de corrélation)
+function chartColumns(spec: ChartSpec, features: Readonly<Array<string>>, numericFeatures: Readonly<Array<string>> = []): Array<string> {
+    // Avec un group-by, ce sont les clés et les features mesurées qui sont utilisées
+    if (spec.groupBy) {
+        return [...spec.groupBy.keys, ...spec.groupBy.measures.map(m => m.feature)]
+            .filter((c, i, all) => c !== '*' && all.indexOf(c) === i);
+    }
+    if (spec.chartType === 'Table' || spec.chartType === 'Summary') return [...features];
+    if (spec.chartType === 'Correlation Matrix') return [...numericFeatures];
+    const { yFeatures, groupFeature } = resolveSeriesFeatures(spec);
+    const columns = spec.chartType === 'Heatmap' || spec.chartType === 'Pivot Table'
+        ? [spec.rowFeature, spec.colFeature, spec.valueFeature]
+        : spec.chartType === 'Donut Chart'
+            ? [...yFeatures, groupFeature]
+            : [spec.xFeature, ...yFeatures, groupFeature];
+    return columns.filter((c, i, all): c is string => !!c && all.indexOf(c) === i);
+}
+
+// Calculs coûteux propres au type de graphique, faits à la fin de la chaîne de traitement (donc en arrière-plan
+// pour le tableau de bord) plutôt qu'au dessin ; seules les données utiles au type de graphique sont présentes
+export interface ChartComputations {
+    trend?: TrendSeries | null;  // Scatter Plot (null sans courbe de tendance)
+    correlation?: { features: Array<string>; values: Array<Array<number | null>> };
+    distributions?: Array<DistributionData>; // Box Plot / Violin Plot
+    heatmap?: HeatmapData;       // Heatmap, et Pivot Table affiché avec sa heatmap
+    pivot?: PivotData;
+    summary?: Array<FeatureSummary>;
+}
+
+// Données calculées pour dessiner le graphique de la spécification à partir des lignes traitées
+export function computeChartData(
+    data: Readonly<Array<Object>>,
+    spec: ChartSpec,
+    columns: Readonly<Array<string>>,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>
+): ChartComputations {
+    const xFeature = spec.xFeature ?? "";
+    const { yFeatures, groupFeature } = resolveSeriesFeatures(spec);
+    const groupEnumeration = enumerations.get(groupFeature);
+    const rowFeature = spec.rowFeature ?? "";
+    const colFeature = spec.colFeature ?? "";
+    const valueFeature = spec.valueFeature ?? "";
+
+    switch (spec.chartType) {
+        case 'Scatter Plot': {
+            const trend = spec.trend ?? {};
+            if (!trend.method || trend.method === 'none') return { trend: null };
+            // Une courbe par série affichée, ou une par feature Y tous groupes confondus
+            const xCategories = categoricalAxis(data, xFeature, enumerations.get(xFeature));
+            const fitted = trend.perGroup
+                ? buildSeriesData(data, xFeature, yFeatures, groupFeature, groupEnumeration, xCategories)
+                : buildSeriesData(data, xFeature, yFeatures, "", null, xCategories);
+            return { trend: buildTrendSeries(fitted, trend, xCategories ? xCategories.map((_, i) => i) : undefined) };
+        }
+        case 'Heatmap':
+            return { heatmap: buildHeatmapData(data, rowFeature, colFeature, valueFeature, spec.heatmap ?? {}, enumerations) };
+        case 'Pivot Table': {
+            const options = spec.pivot ?? {};
+            const binned = binHeatmapFeatures(data, rowFeature, colFeature, spec.heatmap ?? {}, enumerations);
+            const pivot = buildPivotData(binned.data, rowFeature, colFeature, valueFeature, options.aggregation ?? 'sum', options.percentile, binned.enumerations);
+            // La heatmap affichée sous le tableau reprend ses cellules (même découpage, même agrégation)
+            const heatmap = options.withHeatmap ? { values: pivot.cells, rowLabels: pivot.rowLabels, colLabels: pivot.colLabels, bins: binned.bins } : undefined;
+            return { pivot, heatmap };
+        }
+        case 'Box Plot':
+        case 'Violin Plot':
+            return { distributions: buildDistributions(data, yFeatures[0] ?? "", groupFeature, groupEnumeration, spec.chartType === 'Box Plot' ? 'box' : 'violin') };
+        case 'Correlation Matrix': {
+            const features = numericColumnsOf(data, columns);
+            return { correlation: { features, values: features.length < 2 ? [] : buildCorrelationMatrix(data, features, spec.correlation?.method ?? 'pearson') } };
+        }
+        case 'Summary':
+            return { summary: summarizeFeatures(data, columns, enumerations) };
+        default:
+            return {};
+    }
+}
+
+// Résultat de la chaîne de traitement : données et informations affichées à côté du graphique
+export interface PipelineResult {
+    data: Readonly<Array<Object>>; // Lignes partagées avec le cache des étapes : ne pas les modifier
+    columns: Array<string>; // Colonnes des données produites (features, ou clés + mesures après un group-by)
+    notes: Array<string>;
+    axisLabels: Record<string, string>; // Libellés des features transformées, p.ex. "Salary (z-score)"
+    chart: ChartComputations;
+}
+
+// Dernier résultat de chaque étape, par tableau d'entrée : une étape dont l'entrée et les paramètres n'ont pas changé
+// (p.ex. les filtres quand seul le seuil des outliers bouge) n'est pas recalculée
+const stageCache = new WeakMap<ReadonlyArray<Object>, Map<string, { key: string; result: any }>>();
+
+function memoizeStage<T>(input: ReadonlyArray<Object>, stage: string, parameters: unknown, compute: () => T): T {
+    const key = JSON.stringify(parameters) ?? '';
+    let stages = stageCache.get(input);
+    if (!stages) {
+        stages = new Map();
+        stageCache.set(input, stages);
+    }
+    const cached = stages.get(stage);
+    if (cached && cached.key === key) return cached.result;
+
+    const result = compute();
+    stages.set(stage, { key, result });
+    return result;
+}
+
+// Nombre d'étapes de la chaîne de traitement, pour l'indicateur d'avancement
+export const PIPELINE_STAGES = 8;
+
+// Applique la chaîne de traitement d'une spécification : valeurs manquantes, filtres, outliers, normalisation, agrégation,
+// échantillonnage, tri, puis calculs propres au graphique. Les lignes reçues ne sont jamais modifiées : chaque étape retourne un nouveau tableau
+export function processChartData(
+    data: Readonly<Array<Object>>,
+    spec: ChartSpec,
+    features: Readonly<Array<string>>,
+    numericFeatures: Array<string>,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> = new Map()
+): PipelineResult {
+    const stages = processChartStages(data, spec, features, numericFeatures, enumerations);
+    let step = stages.next();
+    while (!step.done) step = stages.next();
+    return step.value;
+}
+
+// Même chaîne, interrompue après chaque étape (même sautée) avec le nombre d'étapes faites : le traitement peut être
+// abandonné ou son avancement affiché entre deux étapes
+export function* processChartStages(
+    data: Readonly<Array<Object>>,
+    spec: ChartSpec,
+    features: Readonly<Array<string>>,
+    numericFeatures: Array<string>,
+    enumerations: Readonly<Map<string, Array<boolean | number | string> | null>>
+): Generator<number, PipelineResult, void> {
+    const xFeature = spec.xFeature ?? "";
+    const { yFeatures, groupFeature } = resolveSeriesFeatures(spec);
+    const notes: Array<string> = [];
+    const axisLabels: Record<string, string> = {};
+    let stagesDone = 0;
+
+    // Données à utiliser
+    let datasetToUse = data;
+
+    // Politique de valeurs manquantes appliquée avant tout le reste, quel que soit le graphique
+    const missingPolicy = spec.missingValues?.policy ?? 'keep';
+    const missingColumns = chartColumns(spec, features, numericFeatures);
+    const missingOptions = { fillValue: spec.missingValues?.fillValue, orderFeature: xFeature };
+    const missing = memoizeStage(datasetToUse, 'missing', [missingColumns, numericFeatures, missingPolicy, missingOptions], () =>
+        handleMissingValues(data, missingColumns, numericFeatures, missingPolicy, missingOptions));
+    datasetToUse = missing.data;
+    if (missing.affectedRows > 0) {
+        notes.push(`${missing.affectedRows} row(s) with missing values (${missingPolicy})`);
+    }
+    yield ++stagesDone;
+
+    if (spec.filters && spec.filters.length > 0) {
+        const filters = spec.filters;
+        const input = datasetToUse;
+        datasetToUse = memoizeStage(input, 'filters', filters, () => applyFiltering(input, filters));
+    }
+    yield ++stagesDone;
+
+    if (spec.removeOutliers) {
+        const method = spec.outliers?.method ?? 'iqr';
+        const threshold = spec.outlierThreshold || OUTLIER_DETECTORS[method].defaultThreshold;
+        const mark = spec.outliers?.mode === 'mark';
+        // Toutes les colonnes numériques, ou seulement celles du graphique
+        const outlierFeatures = spec.outliers?.scope === 'plotted'
+            ? chartColumns(spec, features, numericFeatures).filter(f => numericFeatures.includes(f))
+            : numericFeatures;
+
+        const input = datasetToUse;
+        const outliers = memoizeStage(input, 'outliers', [outlierFeatures, threshold, method, mark], () => mark
+            ? markOutliers(input, outlierFeatures, threshold, method)
+            : { data: removeOutliers(input, outlierFeatures, threshold, method), marked: 0 });
+        datasetToUse = outliers.data;
+        if (outliers.marked > 0) notes.push(`${outliers.marked} outlier(s) marked (${method})`);
+        if (input.length > datasetToUse.length) notes.push(`${input.length - datasetToUse.length} outlier(s) removed (${method})`);
+    }
+    yield ++stagesDone;
+
+    if (spec.normalize || (spec.columnScaling && Object.keys(spec.columnScaling).length > 0)) {
+        const scalingMethod = spec.normalize ? (spec.scaling ?? 'min-max') : 'none';
+        const input = datasetToUse;
+        const scaled = memoizeStage(input, 'normalization', [numericFeatures, scalingMethod, spec.columnScaling], () =>
+            applyNormalization(input, numericFeatures, scalingMethod, spec.columnScaling));
+        datasetToUse = scaled.data;
+        Object.entries(scaled.applied).forEach(([feature, method]) => {
+            axisLabels[feature] = `${feature} (${SCALING_LABELS[method]})`;
+        });
+    }
+    yield ++stagesDone;
+
+    let columns = [...features];
+    if (spec.groupBy && spec.groupBy.keys.length > 0 && spec.groupBy.measures.length > 0) {
+        const groupBy = spec.groupBy;
+        const input = datasetToUse;
+        datasetToUse = memoizeStage(input, 'groupBy', [groupBy, Array.from(enumerations.entries())], () => groupByAggregate(input, groupBy, enumerations));
+        columns = [...groupBy.keys, ...groupBy.measures.map(measureName)];
+        notes.push(`${datasetToUse.length} group(s)`);
+    }
+    // Si on veut agréger par "Version" pour n’avoir plus qu’une seule ligne par version :
+    else if (spec.aggregation && (spec.chartType === 'Bar Chart' || spec.chartType === 'Line Chart')) {
+        // ex. groupFeature = xFeature
+        // Après agrégation => tableau = [ { [xFeature]: group, [yFeature]: value, ... }, ... ]
+        const aggregation = spec.aggregation;
+        const input = datasetToUse;
+        datasetToUse = memoizeStage(input, 'aggregation', [xFeature, yFeatures, groupFeature, aggregation], () =>
+            aggregateSeriesData(input, xFeature, yFeatures, groupFeature, aggregation));
+    }
+    yield ++stagesDone;
+
+    // Sous-échantillon des points des courbes et nuages de points, signalé sous le graphique
+    if (spec.sampling && (spec.chartType === 'Line Chart' || spec.chartType === 'Scatter Plot')) {
+        const sampling = spec.sampling;
+        const input = datasetToUse;
+        datasetToUse = memoizeStage(input, 'sampling', [sampling, xFeature, yFeatures[0], groupFeature], () =>
+            sampleRows(input, sampling, xFeature, yFeatures[0] ?? "", groupFeature));
+        if (datasetToUse.length < input.length) {
+            notes.push(`Showing ${datasetToUse.length} of ${input.length} points (${sampling.method} sampling)`);
+        }
+    }
+    yield ++stagesDone;
+
+    // Tri du tableau : clés choisies sur les en-têtes, sinon colonne et ordre des contrôles
+    if (spec.chartType === 'Table') {
+        const sortKeys = spec.table?.sortKeys?.length ? spec.table.sortKeys : spec.sort ? [spec.sort] : [];
+        const input = datasetToUse;
+        datasetToUse = memoizeStage(input, 'sort', sortKeys, () => sortDataByKeys(input as Array<Record<string, any>>, sortKeys));
+    }
+    yield ++stagesDone;
+
+    // Calculs du graphique, refaits seulement quand les options qu'ils utilisent changent (pas pour une couleur ou un format)
+    const processed = datasetToUse;
+    const chartParameters = [
+        spec.chartType, xFeature, yFeatures, groupFeature, spec.rowFeature, spec.colFeature, spec.valueFeature,
+        spec.trend, spec.correlation, spec.pivot, spec.heatmap && [spec.heatmap.aggregation, spec.heatmap.percentile, spec.heatmap.rowBins, spec.heatmap.colBins],
+        columns, Array.from(enumerations.entries())
+    ];
+    const chart = memoizeStage(processed, 'chart', chartParameters, () => computeChartData(processed, spec, columns, enumerations));
+    yield ++stagesDone;
+
+    return { data: datasetToUse, columns, notes, axisLabels, chart };
+}
+
+/**********************************
+ * Mises à jour en continu (lignes émises par le moteur DMN)
+ **********************************/
+
+// Conserve les `window` lignes les plus récentes (toutes si window vaut 0)
+export function applyRollingWindow<T>(rows: ReadonlyArray<T>, window: number): ReadonlyArray<T> {
+    return window > 0 && rows.length > window ? rows.slice(rows.length - window) : rows;
+}
+
+// Ajoute des lignes en place en retirant les `dropCount` plus anciennes (celles déjà présentes, puis le début des nouvelles),
+// et oublie les colonnes et résultats d'étapes mis en cache pour ce tableau
+export function appendRows(target: Array<Object>, rows: ReadonlyArray<Object>, dropCount: number): void {
+    const dropped = Math.min(dropCount, target.length);
+    target.splice(0, dropped);
+    for (let i = dropCount - dropped; i < rows.length; i++) target.push(rows[i]);
+    columnCache.delete(target);
+    stageCache.delete(target);
+}
+
+/**********************************
+ * Traitement en arrière-plan (messages du Web Worker)
+ **********************************/
+
+// Datasets gardés par le worker, pour ne pas les lui renvoyer à chaque traitement
+export const PIPELINE_CACHED_DATASETS = 4;
+
+// Messages échangés avec le worker : les lignes d'un dataset ne sont envoyées qu'une fois, puis seulement les lignes ajoutées
+export type PipelineRequest =
+    | { type: 'dataset'; datasetId: number; data: Readonly<Array<Object>> }
+    | { type: 'append'; datasetId: number; rows: ReadonlyArray<Object>; dropCount: number }
+    | { type: 'process'; id: number; datasetId: number; spec: ChartSpec; features: Readonly<Array<string>>; numericFeatures: Array<string>; enumerations: Readonly<Map<string, Array<boolean | number | string> | null>> }
+    | { type: 'cancel'; id: number };
+
+// Le worker répond 'missing' quand il n'a pas (ou plus) le dataset d'une demande, qui lui est alors renvoyé
+export type PipelineReply =
+    | { type: 'progress'; id: number; done: number; total: number }
+    | { type: 'result'; id: number; result: PipelineResult }
+    | { type: 'missing'; id: number; datasetId: number }
+    | { type: 'error'; id: number; message: string };
+
+// Exécute les étapes une à une en rendant la main avant chacune (messages reçus, affichage) ;
+// s'arrête dès que isCancelled() est vrai
+export function runPipelineStages(
+    stages: Generator<number, PipelineResult, void>,
+    isCancelled: () => boolean,
+    onProgress: (done: number) => void,
+    onResult: (result: PipelineResult) => void,
+    onError: (error: Error) => void
+): void {
+    const step = () => {
+        if (isCancelled()) return;
+        try {
+            const next = stages.next();
+            if (next.done) {
+                onResult(next.value);
+                return;
+            }
+            onProgress(next.value);
+        } catch (error) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        setTimeout(step, 0);
+    };
+    setTimeout(step, 0);
+}
@@ -0,0 +1,55 @@
+// Point d'entrée du Web Worker de Dataviz (adresse donnée par Dataviz.workerUrl) : n'importe que la chaîne de traitement,
+// sans l'interface ni les modules de l'hôte
+import {
+    PIPELINE_CACHED_DATASETS, PIPELINE_STAGES, PipelineReply, PipelineRequest, appendRows, processChartStages, runPipelineStages
+} from "./DatavizPipeline.js";
+
+// Côté worker : garde les datasets reçus et répond aux demandes de traitement, en signalant chaque étape ;
+// une demande annulée s'arrête à la fin de l'étape en cours
+function installPipelineWorker(scope: any): void {
+    const datasets = new Map<number, Array<Object>>(); // Copies propres au worker, complétées par les messages 'append'
+    const active = new Set<number>(); // Demandes en cours, retirées à leur annulation
+    const reply = (message: PipelineReply) => scope.postMessage(message);
+
+    scope.onmessage = (event: MessageEvent) => {
+        const request = event.data as PipelineRequest;
+        switch (request.type) {
+            case 'dataset':
+                datasets.set(request.datasetId, request.data as Array<Object>);
+                // Même éviction que le thread principal : les plus anciens d'abord
+                Array.from(datasets.keys()).slice(0, -PIPELINE_CACHED_DATASETS).forEach(id => datasets.delete(id));
+                break;
+            case 'append': {
+                const target = datasets.get(request.datasetId);
+                if (target) appendRows(target, request.rows, request.dropCount);
+                break;
+            }
+            case 'cancel':
+                active.delete(request.id);
+                break;
+            case 'process': {
+                const { id, datasetId, spec, features, numericFeatures, enumerations } = request;
+                const data = datasets.get(datasetId);
+                if (!data) {
+                    reply({ type: 'missing', id, datasetId });
+                    break;
+                }
+                active.add(id);
+                runPipelineStages(processChartStages(data, spec, features, numericFeatures, enumerations),
+                    () => !active.has(id),
+                    done => reply({ type: 'progress', id, done, total: PIPELINE_STAGES }),
+                    result => {
+                        active.delete(id);
+                        reply({ type: 'result', id, result });
+                    },
+                    error => {
+                        active.delete(id);
+                        reply({ type: 'error', id, message: error.message });
+                    });
+                break;
+            }
+        }
+    };
+}
+
+installPipelineWorker(self);